@@ -1,215 +1,317 @@
-import React, { useState, useEffect } from 'react';
-import { Layout, Printer, RefreshCw, PenTool, FileDown, Languages, FileText, Zap, Settings, X, ExternalLink, Key } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Layout, Printer, RefreshCw, PenTool, FileDown, Languages, FileText, Zap, Settings, X, Shuffle, Pencil, Undo2, Redo2, Check, Library, ClipboardList, ClipboardCheck, Database, FileUp, Share2, Play } from 'lucide-react';
 import ExamForm from './components/ExamForm';
 import ExamViewer from './components/ExamViewer';
 import RubricViewer from './components/RubricViewer';
-import { generateExam } from './services/geminiService';
-import { ExamConfig, ExamData, AppView } from './types';
-import {
-  Document,
-  Packer,
-  Paragraph,
-  TextRun,
-  AlignmentType,
-  BorderStyle,
-  WidthType,
-  Table,
-  TableRow,
-  TableCell
-} from "docx";
-
-const MODELS = [
-  { id: "gemini-3-flash-preview", name: "Gemini 3.0 Flash", desc: "Fastest standard model (Recommended)" },
-  { id: "gemini-3-pro-preview", name: "Gemini 3.0 Pro", desc: "High intelligence for complex logic" },
-  { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", desc: "Legacy fast model" },
-  { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", desc: "Legacy pro model" }
-];
+import VersionAnswerTable from './components/VersionAnswerTable';
+import RegenerateDialog from './components/RegenerateDialog';
+import ImportExamDialog from './components/ImportExamDialog';
+import LmsExportDialog from './components/LmsExportDialog';
+import SchoolProfileSettings from './components/SchoolProfileSettings';
+import AiProviderSettings from './components/AiProviderSettings';
+import PromptTemplateSettings from './components/PromptTemplateSettings';
+import GradeProfileSettings from './components/GradeProfileSettings';
+import ExamLibrary from './components/ExamLibrary';
+import MatrixViewer from './components/MatrixViewer';
+import ScorePanel from './components/ScorePanel';
+import AnswerSheet from './components/AnswerSheet';
+import GradingWorkspace from './components/GradingWorkspace';
+import QuestionBank from './components/QuestionBank';
+import RunDetails from './components/RunDetails';
+import { useHistory } from './hooks/useHistory';
+import { generateExam, regenerateQuestion, regenerateSection, GenerationCheckpoint } from './services/geminiService';
+import { replaceQuestion, replaceSection } from './services/examEditor';
+import { saveExam, updateSavedExam, updateSavedPrinted } from './services/libraryService';
+import { printedPapers } from './services/gradingService';
+import { addExamToBank } from './services/questionBankService';
+import { generateVersions } from './services/versionService';
+import { buildExamDocument, buildMatrixDocument, buildAnswerSheetDocument } from './services/wordExport';
+import { downloadBlob } from './services/download';
+import { loadSchoolProfile, saveSchoolProfile, getExamTemplate } from './services/schoolProfile';
+import { loadProviders, saveProviders, isProviderReady } from './services/aiProviders';
+import { loadGradeOverrides, saveGradeOverrides } from './services/gradeProfiles';
+import { errorMessage, isAuthError, isCancelled } from './services/aiErrors';
+import { fillExamTemplate } from './services/docxTemplate';
+import { ExamConfig, ExamData, AppView, GenerationRun } from './types';
+import { Packer } from "docx";
 
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>(AppView.INPUT);
-  const [examData, setExamData] = useState<ExamData | null>(null);
+  const examHistory = useHistory<ExamData | null>(null);
+  const examData = examHistory.value;
+  const [isEditing, setIsEditing] = useState(false);
+  const [lastConfig, setLastConfig] = useState<ExamConfig | null>(null);
+  const [formConfig, setFormConfig] = useState<ExamConfig | null>(null);
+  const [savedExamId, setSavedExamId] = useState<string | null>(null);
+  const [sidePanel, setSidePanel] = useState<'rubric' | 'matrix'>('rubric');
+  const [previewMode, setPreviewMode] = useState<'paper' | 'sheet'>('paper');
+  const [highlightQuestionId, setHighlightQuestionId] = useState<string | null>(null);
+  const [runLog, setRunLog] = useState<GenerationRun | null>(null);
+
+  // Regenerating a single question or section
+  const [regenTarget, setRegenTarget] = useState<{ sIdx: number; qIdx?: number } | null>(null);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showLmsExport, setShowLmsExport] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState<string>("Generating English Exam...");
+  const [partialExam, setPartialExam] = useState<ExamData | null>(null);
+  // Output of the last unfinished run, offered as "Resume" after a failure or cancel
+  const [checkpoint, setCheckpoint] = useState<GenerationCheckpoint | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // A closed dialog cancels its regeneration so a late answer never lands in the editor
+  const regenAbortRef = useRef<AbortController | null>(null);
+
+  // Exam versions (mã đề): 0 means only the original paper
+  const [versionCount, setVersionCount] = useState(0);
+  const [versionSeed, setVersionSeed] = useState(1);
+  const [activeVersion, setActiveVersion] = useState(0);
+
+  const versions = useMemo(
+    () => (examData && versionCount > 0 ? generateVersions(examData, versionCount, versionSeed) : []),
+    [examData, versionCount, versionSeed]
+  );
+  const currentVersion = versions[Math.min(activeVersion, versions.length - 1)];
+  // Edits always apply to the original paper; versions are re-derived from it
+  const displayData = examData && currentVersion && !isEditing
+    ? { ...examData, content: currentVersion.content, answers: currentVersion.answers }
+    : examData;
+  const handleEdit = (next: ExamData | ((current: ExamData) => ExamData)) =>
+    examHistory.set(current => (typeof next !== "function" ? next : current && next(current)));
+
+  useEffect(() => {
+    if (!isEditing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement)?.closest('input, textarea')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); examHistory.undo(); }
+      if (key === 'y' || (key === 'z' && e.shiftKey)) { e.preventDefault(); examHistory.redo(); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isEditing, examHistory.undo, examHistory.redo]);
 
   // Settings State
   const [showSettings, setShowSettings] = useState(false);
-  const [apiKey, setApiKey] = useState("");
-  const [selectedModel, setSelectedModel] = useState("gemini-3-flash-preview");
+  const [providers, setProviders] = useState(loadProviders);
+  const [schoolProfile, setSchoolProfile] = useState(loadSchoolProfile);
+  const [gradeOverrides, setGradeOverrides] = useState(loadGradeOverrides);
+  const aiReady = providers.some(isProviderReady);
 
   useEffect(() => {
-    const storedKey = localStorage.getItem('user_gemini_api_key');
-    const storedModel = localStorage.getItem('preferred_model');
-
-    if (storedKey) setApiKey(storedKey);
-    else setShowSettings(true); // Force open if no key
-
-    if (storedModel) setSelectedModel(storedModel);
+    if (!loadProviders().some(isProviderReady)) setShowSettings(true); // Force open if no provider
   }, []);
 
   const handleSaveSettings = () => {
-    if (!apiKey.trim()) {
-      alert("Please enter a valid API Key");
+    if (!aiReady) {
+      alert("Please set up at least one AI provider, e.g. a Gemini API Key");
       return;
     }
-    localStorage.setItem('user_gemini_api_key', apiKey);
-    localStorage.setItem('preferred_model', selectedModel);
+    saveProviders(providers);
+    saveSchoolProfile(schoolProfile);
+    saveGradeOverrides(gradeOverrides);
     setShowSettings(false);
   };
 
-  const handleGenerate = async (config: ExamConfig) => {
+  const openExam = (exam: ExamData, config: ExamConfig | null, savedId: string | null, run?: GenerationRun) => {
+    examHistory.reset(exam);
+    setLastConfig(config);
+    setSavedExamId(savedId);
+    setRunLog(run || null);
+    setIsEditing(false);
+    setHighlightQuestionId(null);
+    setVersionCount(0);
+    setActiveVersion(0);
+    setView(AppView.RESULT);
+  };
+
+  // Keep the library copy in sync with edits and regenerations
+  useEffect(() => {
+    if (!savedExamId || !examData) return;
+    const timer = setTimeout(() => {
+      updateSavedExam(savedExamId, examData).catch(err => console.warn("Could not update saved exam.", err));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [savedExamId, examData]);
+
+  const saveToLibrary = async (exam: ExamData, config: ExamConfig | null, run?: GenerationRun): Promise<string | null> => {
+    try {
+      return (await saveExam(exam, config, run)).id;
+    } catch (saveErr) {
+      console.warn("Could not save exam to the local library.", saveErr);
+      return null;
+    }
+  };
+
+  const handleGenerate = async (config: ExamConfig, resumeFrom?: GenerationCheckpoint) => {
     setView(AppView.LOADING);
     setLoadingMessage("Waking up Flash AI Engine...");
     setError(null);
+    setPartialExam(null);
+    setLastConfig(config);
+    if (!resumeFrom) setCheckpoint(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let run: GenerationRun | undefined;
     try {
       const result = await generateExam(config, (msg) => {
         setLoadingMessage(msg);
+      }, setPartialExam, {
+        signal: controller.signal,
+        resumeFrom,
+        onCheckpoint: setCheckpoint,
+        onRun: (latest) => { run = latest; },
       });
-      setExamData(result);
-      setView(AppView.RESULT);
+      setCheckpoint(null);
+      const savedId = await saveToLibrary(result, config, run);
+      // Keep every generated question for offline reuse
+      addExamToBank(result, config, savedId || undefined).catch(bankErr => console.warn("Could not add questions to the bank.", bankErr));
+      openExam(result, config, savedId, run);
     } catch (err: any) {
-      setError(err.message || "Error generating exam. Please try again.");
+      setError(isCancelled(err) ? "Generation cancelled." : errorMessage(err, "Error generating exam. Please try again."));
       setView(AppView.INPUT);
+      // Every provider failed and at least one rejected its key: send the user straight to the keys
+      if (isAuthError(err)) setShowSettings(true);
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleAssemble = async (exam: ExamData) => {
+    openExam(exam, null, await saveToLibrary(exam, null));
+  };
+
+  const handleImport = async (exam: ExamData) => {
+    setShowImport(false);
+    openExam(exam, null, await saveToLibrary(exam, null));
+  };
+
+  const handleSaveToBank = async () => {
+    if (!examData) return;
+    try {
+      const added = await addExamToBank(examData, lastConfig, savedExamId || undefined);
+      alert(added > 0 ? `Added ${added} question(s) to the bank.` : "All questions are already in the bank.");
+    } catch (e: any) {
+      alert(e.message || "Could not save to the question bank.");
     }
   };
 
   const handleReset = () => {
-    if (confirm("Create a new exam? Current progress will be lost.")) {
+    const message = savedExamId
+      ? "Create a new exam? The current exam stays in your Library."
+      : "Create a new exam? Current progress will be lost.";
+    if (confirm(message)) {
       setView(AppView.INPUT);
-      setExamData(null);
+      examHistory.reset(null);
+      setSavedExamId(null);
+      setIsEditing(false);
     }
   };
 
+  const handleRegenerate = async (instruction: string) => {
+    if (!examData || !regenTarget) return;
+    setIsRegenerating(true);
+    const controller = new AbortController();
+    regenAbortRef.current = controller;
+    try {
+      const { sIdx, qIdx } = regenTarget;
+      if (qIdx !== undefined) {
+        const { question, answer } = await regenerateQuestion(examData, sIdx, qIdx, instruction, lastConfig || undefined, controller.signal);
+        if (controller.signal.aborted) return;
+        examHistory.set(replaceQuestion(examData, sIdx, qIdx, question, answer));
+      } else {
+        const { section, answers } = await regenerateSection(examData, sIdx, instruction, lastConfig || undefined, controller.signal);
+        if (controller.signal.aborted) return;
+        examHistory.set(replaceSection(examData, sIdx, section, answers));
+      }
+      setRegenTarget(null);
+    } catch (err: any) {
+      if (controller.signal.aborted || isCancelled(err)) return;
+      alert(errorMessage(err, "Failed to regenerate. Please try again."));
+      if (isAuthError(err)) {
+        setRegenTarget(null);
+        setShowSettings(true);
+      }
+    } finally {
+      if (regenAbortRef.current === controller) regenAbortRef.current = null;
+      setIsRegenerating(false);
+    }
+  };
+
+  const closeRegenerate = () => {
+    regenAbortRef.current?.abort();
+    setRegenTarget(null);
+  };
+
+  useEffect(() => () => regenAbortRef.current?.abort(), []);
+
+  // Grading started later uses the keys of the papers handed out, even if the exam is edited afterwards
+  const recordPrinted = () => {
+    if (!savedExamId || !examData) return;
+    updateSavedPrinted(savedExamId, printedPapers(examData, versionCount, versionSeed))
+      .catch(err => console.warn("Could not record the printed papers.", err));
+  };
+
+  const handlePrint = () => {
+    recordPrinted();
+    if (!isEditing) return window.print();
+    // Leave edit mode first so the printout shows the paper, not the inputs
+    setIsEditing(false);
+    setTimeout(() => window.print(), 0);
+  };
+
   const handleExportWord = async () => {
     if (!examData) return;
     setIsExporting(true);
 
     try {
-      const children: any[] = [];
-      const fontName = "Times New Roman";
-
-      // 1. Header
-      children.push(
-        new Table({
-          width: { size: 100, type: WidthType.PERCENTAGE },
-          borders: {
-            top: { style: BorderStyle.NONE }, bottom: { style: BorderStyle.NONE },
-            left: { style: BorderStyle.NONE }, right: { style: BorderStyle.NONE },
-            insideVertical: { style: BorderStyle.NONE }, insideHorizontal: { style: BorderStyle.NONE },
-          },
-          rows: [
-            new TableRow({
-              children: [
-                new TableCell({
-                  width: { size: 40, type: WidthType.PERCENTAGE },
-                  children: [
-                    new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: "EDUCATION DEPARTMENT", bold: true, font: fontName, size: 24 })] }),
-                    new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: "__________________", bold: true, font: fontName })] })
-                  ],
-                }),
-                new TableCell({
-                  width: { size: 60, type: WidthType.PERCENTAGE },
-                  children: [
-                    new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: examData.examTitle?.toUpperCase() || "EXAM PAPER", bold: true, font: fontName, size: 28 })] }),
-                    new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: `Subject: English | Time: ${examData.duration}`, italics: true, font: fontName, size: 24 })] }),
-                  ],
-                }),
-              ],
-            }),
-          ],
-        }),
-        new Paragraph({ text: "", spacing: { after: 200 } })
-      );
-
-      // 2. Exam Content
-      examData.content?.forEach((section) => {
-        children.push(
-          new Paragraph({
-            children: [new TextRun({ text: section.section, bold: true, font: fontName, size: 26 })],
-            spacing: { before: 200, after: 100 },
-          })
-        );
-
-        if (section.text) {
-          section.text.split('\n').forEach(line => {
-            children.push(new Paragraph({ children: [new TextRun({ text: line, font: fontName, size: 24 })], spacing: { after: 100 } }));
-          });
-        }
-
-        section.questions?.forEach((q) => {
-          children.push(
-            new Paragraph({
-              children: [
-                new TextRun({ text: `${q.id}. `, bold: true, font: fontName, size: 24 }),
-                new TextRun({ text: q.text, font: fontName, size: 24 }),
-                new TextRun({ text: q.points ? ` (${q.points} pts)` : "", italics: true, font: fontName, size: 20 }),
-              ],
-              spacing: { before: 100, after: 50 },
-            })
-          );
-
-          if (q.parts && q.parts.length > 0) {
-            const isOptions = q.parts.length === 4 && q.parts.every(p => /^[A-D]\./.test(p.label || ""));
-            if (isOptions) {
-              children.push(
-                new Paragraph({
-                  children: q.parts.flatMap(p => [
-                    new TextRun({ text: `${p.label} ${p.content}    `, font: fontName, size: 24 }),
-                  ]),
-                  indent: { left: 720 }
-                })
-              );
-            } else {
-              q.parts.forEach(p => {
-                children.push(
-                  new Paragraph({
-                    children: [new TextRun({ text: `${p.label || ""} ${p.content}`, font: fontName, size: 24 })],
-                    indent: { left: 720 },
-                  })
-                );
-              });
-            }
-          }
-        });
-      });
+      const template = await getExamTemplate().catch(() => undefined);
+      const blob = template
+        ? await fillExamTemplate(template.file, examData, versions, schoolProfile)
+        : await Packer.toBlob(buildExamDocument(examData, versions, schoolProfile));
+      downloadBlob(blob, `English_Exam_${Date.now()}.docx`);
+      recordPrinted();
+    } catch (e: any) {
+      console.error(e);
+      alert(e?.message ? `Failed to export Word document: ${e.message}` : "Failed to export Word document.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-      children.push(new Paragraph({ text: "--- THE END ---", alignment: AlignmentType.CENTER, spacing: { before: 400 }, font: fontName, size: 24, italics: true }));
-
-      // 3. Answer Key Section
-      children.push(new Paragraph({ text: "", pageBreakBefore: true }));
-      children.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: "ANSWER KEY", bold: true, font: fontName, size: 28 })], spacing: { after: 300 } }));
-
-      examData.answers?.forEach(ans => {
-        children.push(
-          new Paragraph({
-            children: [
-              new TextRun({ text: `${ans.questionId}: `, bold: true, font: fontName, size: 24 }),
-              new TextRun({ text: ans.answer, font: fontName, size: 24 }),
-              new TextRun({ text: ` (${ans.pointsDetail})`, italics: true, font: fontName, size: 20 }),
-            ],
-            spacing: { after: 100 }
-          })
-        );
-      });
+  const handleExportMatrix = async () => {
+    if (!examData) return;
+    try {
+      downloadBlob(await Packer.toBlob(buildMatrixDocument(examData)), `Ma_tran_dac_ta_${Date.now()}.docx`);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export the matrix document.");
+    }
+  };
 
-      const doc = new Document({ sections: [{ children }] });
-      const blob = await Packer.toBlob(doc);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `English_Exam_${Date.now()}.docx`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+  const handleExportAnswerSheet = async () => {
+    if (!examData) return;
+    try {
+      downloadBlob(await Packer.toBlob(buildAnswerSheetDocument(examData)), `Phieu_tra_loi_${Date.now()}.docx`);
     } catch (e) {
       console.error(e);
-      alert("Failed to export Word document.");
-    } finally {
-      setIsExporting(false);
+      alert("Failed to export the answer sheet.");
     }
   };
 
+  const showAnswerSheet = previewMode === 'sheet' && !isEditing;
+
+  // Item analysis refers to the original paper; on a shuffled version, point at the slot the question moved to
+  const handleShowQuestion = (questionId: string) => {
+    const slotId = currentVersion && !isEditing
+      ? Object.keys(currentVersion.origins).find(slot => currentVersion.origins[slot].questionId === questionId)
+      : undefined;
+    setPreviewMode('paper');
+    setHighlightQuestionId(slotId || questionId);
+    setView(AppView.RESULT);
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
       <nav className="bg-white border-b border-gray-200 shadow-sm sticky top-0 z-50 no-print">
@@ -225,13 +327,35 @@ const App: React.FC = () => {
             </div>
 
             <div className="flex items-center gap-3">
+              <button
+                onClick={() => setView(AppView.LIBRARY)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg transition ${view === AppView.LIBRARY ? 'bg-emerald-50 text-emerald-700' : 'text-slate-600 hover:bg-slate-100'}`}
+              >
+                <Library size={18} />
+                <span className="text-sm font-medium hidden md:block">Library</span>
+              </button>
+              <button
+                onClick={() => setView(AppView.BANK)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg transition ${view === AppView.BANK ? 'bg-teal-50 text-teal-700' : 'text-slate-600 hover:bg-slate-100'}`}
+              >
+                <Database size={18} />
+                <span className="text-sm font-medium hidden md:block">Bank</span>
+              </button>
+              <button
+                onClick={() => setShowImport(true)}
+                className="flex items-center gap-2 px-3 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+                title="Import a .docx/.pdf exam"
+              >
+                <FileUp size={18} />
+                <span className="text-sm font-medium hidden md:block">Import</span>
+              </button>
               <button
                 onClick={() => setShowSettings(true)}
                 className="flex items-center gap-2 px-3 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
               >
                 <Settings size={18} />
                 <span className="text-sm font-medium hidden md:block">Settings</span>
-                {!apiKey && <span className="text-xs text-red-500 font-bold whitespace-nowrap">Lấy API key để sử dụng app</span>}
+                {!aiReady && <span className="text-xs text-red-500 font-bold whitespace-nowrap">Lấy API key để sử dụng app</span>}
               </button>
 
               {view === AppView.RESULT && (
@@ -240,7 +364,36 @@ const App: React.FC = () => {
                     <RefreshCw size={20} />
                   </button>
                   <div className="h-6 w-px bg-gray-300"></div>
-                  <button onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 bg-slate-800 text-white rounded-lg hover:bg-black transition text-sm font-medium">
+                  {isEditing && (
+                    <>
+                      <button onClick={examHistory.undo} disabled={!examHistory.canUndo} className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition disabled:opacity-30" title="Undo (Ctrl+Z)">
+                        <Undo2 size={18} />
+                      </button>
+                      <button onClick={examHistory.redo} disabled={!examHistory.canRedo} className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition disabled:opacity-30" title="Redo (Ctrl+Y)">
+                        <Redo2 size={18} />
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => setIsEditing(e => !e)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg transition text-sm font-medium ${isEditing ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-blue-50 text-blue-700 hover:bg-blue-100'}`}
+                  >
+                    {isEditing ? <Check size={16} /> : <Pencil size={16} />}
+                    {isEditing ? 'Done' : 'Edit'}
+                  </button>
+                  <button onClick={handleSaveToBank} className="p-2 text-teal-600 hover:bg-teal-50 rounded-full transition" title="Save questions to the bank">
+                    <Database size={18} />
+                  </button>
+                  {savedExamId && (
+                    <button
+                      onClick={() => { setIsEditing(false); setHighlightQuestionId(null); setView(AppView.GRADING); }}
+                      className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 rounded-lg transition text-sm font-medium"
+                      title="Enter student responses and compute scores"
+                    >
+                      <ClipboardCheck size={16} /> Chấm bài
+                    </button>
+                  )}
+                  <button onClick={handlePrint} className="flex items-center gap-2 px-4 py-2 bg-slate-800 text-white rounded-lg hover:bg-black transition text-sm font-medium">
                     <Printer size={16} /> Print/PDF
                   </button>
                   <button
@@ -251,6 +404,13 @@ const App: React.FC = () => {
                     {isExporting ? <RefreshCw size={16} className="animate-spin" /> : <FileDown size={16} />}
                     Export Word
                   </button>
+                  <button
+                    onClick={() => setShowLmsExport(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-700 hover:bg-blue-100 rounded-lg transition text-sm font-medium"
+                    title="Moodle XML, GIFT or QTI 2.1"
+                  >
+                    <Share2 size={16} /> LMS
+                  </button>
                 </>
               )}
             </div>
@@ -261,12 +421,40 @@ const App: React.FC = () => {
       <main className="flex-1 max-w-7xl mx-auto py-8 px-4 w-full">
         {error && (
           <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 text-red-700 rounded flex justify-between items-center animate-in fade-in slide-in-from-top-4">
-            <span className="font-medium">{error}</span>
-            <button onClick={() => setError(null)} className="text-xl">&times;</button>
+            <span className="font-medium whitespace-pre-line">{error}</span>
+            <div className="flex items-center gap-3 shrink-0">
+              {checkpoint && lastConfig && (
+                <button
+                  onClick={() => handleGenerate(lastConfig, checkpoint)}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-white border border-red-200 text-red-700 hover:bg-red-100 rounded-lg transition text-sm font-semibold"
+                  title="Continue with the saved plan instead of starting over"
+                >
+                  <Play size={14} /> {checkpoint.partial?.sections.length
+                    ? `Resume after ${checkpoint.partial.sections.length} section(s)`
+                    : "Resume from step 2"}
+                </button>
+              )}
+              <button onClick={() => setError(null)} className="text-xl">&times;</button>
+            </div>
           </div>
         )}
 
-        {view === AppView.INPUT && <ExamForm onSubmit={handleGenerate} isGenerating={false} />}
+        {view === AppView.INPUT && <ExamForm onSubmit={(config) => handleGenerate(config)} onChange={setFormConfig} gradeOverrides={gradeOverrides} isGenerating={false} />}
+
+        {view === AppView.LIBRARY && <ExamLibrary onOpen={(saved) => openExam(saved.exam, saved.config, saved.id, saved.run)} />}
+
+        {view === AppView.BANK && <QuestionBank onAssemble={handleAssemble} />}
+
+        {view === AppView.GRADING && examData && savedExamId && (
+          <GradingWorkspace
+            examId={savedExamId}
+            exam={examData}
+            versionCount={versionCount}
+            versionSeed={versionSeed}
+            onBack={() => setView(AppView.RESULT)}
+            onShowQuestion={handleShowQuestion}
+          />
+        )}
 
         {view === AppView.LOADING && (
           <div className="flex flex-col items-center justify-center py-32 animate-in fade-in zoom-in duration-300">
@@ -282,6 +470,20 @@ const App: React.FC = () => {
               <div className={`h-1.5 w-12 rounded-full transition-all duration-500 ${loadingMessage.includes('Step 1') || loadingMessage.includes('Step 2') ? 'bg-green-600' : 'bg-gray-200'}`}></div>
               <div className={`h-1.5 w-12 rounded-full transition-all duration-500 ${loadingMessage.includes('Step 2') ? 'bg-green-600' : 'bg-gray-200'}`}></div>
             </div>
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="mt-6 flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg transition"
+            >
+              <X size={16} /> Cancel
+            </button>
+            {partialExam && partialExam.content.length > 0 && (
+              <div className="mt-10 w-full max-w-4xl">
+                <p className="mb-3 text-sm font-semibold text-slate-500 uppercase tracking-wider">
+                  Preview: {partialExam.content.length} section(s) received
+                </p>
+                <ExamViewer data={partialExam} className="opacity-90" />
+              </div>
+            )}
           </div>
         )}
 
@@ -289,19 +491,120 @@ const App: React.FC = () => {
           <div className="flex flex-col lg:flex-row gap-8 animate-in fade-in duration-500">
             <div className="lg:w-7/12 w-full">
               <div className="mb-4 flex items-center justify-between no-print">
-                <h3 className="font-bold text-slate-700 flex items-center gap-2 uppercase tracking-wider text-sm">
-                  <FileText className="w-4 h-4" /> Exam Paper Preview
-                </h3>
+                <div className="flex items-center gap-1">
+                  {([['paper', 'Exam Paper', FileText], ['sheet', 'Answer Sheet', ClipboardList]] as const).map(([id, label, Icon]) => (
+                    <button
+                      key={id}
+                      onClick={() => { setPreviewMode(id); if (id === 'sheet') setIsEditing(false); }}
+                      className={`flex items-center gap-2 px-3 py-1 rounded-lg font-bold uppercase tracking-wider text-xs transition ${previewMode === id ? 'bg-slate-800 text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+                    >
+                      <Icon className="w-4 h-4" /> {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <label className="text-slate-600 font-medium">Số mã đề</label>
+                  <select
+                    value={versionCount}
+                    onChange={(e) => { setVersionCount(Number(e.target.value)); setActiveVersion(0); }}
+                    className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+                  >
+                    <option value={0}>Original</option>
+                    {[2, 3, 4, 5, 6, 7, 8].map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                  {versionCount > 0 && (
+                    <button
+                      onClick={() => setVersionSeed(s => s + 1)}
+                      className="flex items-center gap-1 px-2 py-1 text-indigo-600 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded-lg transition"
+                      title="Shuffle again"
+                    >
+                      <Shuffle size={14} /> Shuffle
+                    </button>
+                  )}
+                </div>
               </div>
-              <ExamViewer data={examData} className="exam-paper" />
+              <ScorePanel data={examData} onChange={handleEdit} className="mb-4" />
+              {runLog && <RunDetails run={runLog} className="mb-4" />}
+              {showAnswerSheet ? (
+                <>
+                  <div className="mb-4 flex items-center justify-between gap-3 text-xs text-slate-500 no-print">
+                    <span>Use Print/PDF to print or save this sheet as PDF.</span>
+                    <button onClick={handleExportAnswerSheet} className="flex items-center gap-1 px-3 py-1 font-bold text-green-700 bg-white border border-green-200 rounded-lg hover:bg-green-50 transition">
+                      <FileDown size={14} /> Export .docx
+                    </button>
+                  </div>
+                  <AnswerSheet data={examData} className="exam-paper" />
+                </>
+              ) : (
+                <>
+                  {versions.length > 0 && !isEditing && (
+                    <div className="mb-4 flex flex-wrap gap-2 no-print">
+                      {versions.map((v, i) => (
+                        <button
+                          key={v.code}
+                          onClick={() => setActiveVersion(i)}
+                          className={`px-3 py-1 rounded-full text-xs font-bold border transition ${i === activeVersion ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:border-indigo-300'}`}
+                        >
+                          Mã đề {v.code}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <ExamViewer
+                    data={displayData!}
+                    examCode={isEditing ? undefined : currentVersion?.code}
+                    className="exam-paper"
+                    editable={isEditing}
+                    onChange={handleEdit}
+                    // Regeneration targets the original paper, not a shuffled version
+                    onRegenerateQuestion={displayData === examData ? (sIdx, qIdx) => setRegenTarget({ sIdx, qIdx }) : undefined}
+                    onRegenerateSection={displayData === examData ? (sIdx) => setRegenTarget({ sIdx }) : undefined}
+                    highlightQuestionId={highlightQuestionId}
+                    profile={schoolProfile}
+                  />
+                </>
+              )}
             </div>
-            <div className="lg:w-5/12 w-full no-print">
-              <RubricViewer data={examData} />
+            <div className="lg:w-5/12 w-full no-print space-y-6">
+              <div className="flex gap-2">
+                {([['rubric', 'Answer Key'], ['matrix', 'Ma trận & Đặc tả']] as const).map(([id, label]) => (
+                  <button
+                    key={id}
+                    onClick={() => setSidePanel(id)}
+                    className={`px-4 py-1.5 rounded-full text-sm font-semibold border transition ${sidePanel === id ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-300 hover:border-slate-400'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {sidePanel === 'rubric' ? (
+                <>
+                  <RubricViewer data={displayData!} editable={isEditing} onChange={handleEdit} profile={schoolProfile} />
+                  {versions.length > 0 && <VersionAnswerTable versions={versions} />}
+                </>
+              ) : (
+                <MatrixViewer data={examData} onExport={handleExportMatrix} />
+              )}
             </div>
           </div>
         )}
       </main>
 
+      {regenTarget && examData && (
+        <RegenerateDialog
+          title={regenTarget.qIdx !== undefined
+            ? examData.content[regenTarget.sIdx]?.questions[regenTarget.qIdx]?.id || 'question'
+            : `section "${examData.content[regenTarget.sIdx]?.section}"`}
+          isWorking={isRegenerating}
+          onSubmit={handleRegenerate}
+          onClose={closeRegenerate}
+        />
+      )}
+
+      {showLmsExport && examData && <LmsExportDialog data={examData} onClose={() => setShowLmsExport(false)} />}
+
+      {showImport && <ImportExamDialog onImport={handleImport} onClose={() => setShowImport(false)} onAuthError={() => { setShowImport(false); setShowSettings(true); }} />}
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
@@ -311,65 +614,35 @@ const App: React.FC = () => {
                 <Settings className="w-5 h-5 text-blue-600" />
                 <h3 className="font-bold text-lg">Configuration</h3>
               </div>
-              {!apiKey ? null : (
+              {!aiReady ? null : (
                 <button onClick={() => setShowSettings(false)} className="text-slate-400 hover:text-slate-600 transition">
                   <X size={20} />
                 </button>
               )}
             </div>
 
-            <div className="p-6 space-y-6">
-
-              {/* API Key Section */}
-              <div className="space-y-3">
-                <label className="block text-sm font-semibold text-slate-700">
-                  Google Gemini API Key <span className="text-red-500">*</span>
-                </label>
-                <div className="relative">
-                  <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-                  <input
-                    type="password"
-                    value={apiKey}
-                    onChange={(e) => setApiKey(e.target.value)}
-                    placeholder="Enter your AI Studio API Key"
-                    className="w-full pl-10 pr-4 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition"
-                  />
-                </div>
-                <div className="text-xs text-slate-500 flex justify-between items-center">
-                  <span>Required for AI generation</span>
-                  <a href="https://aistudio.google.com/api-keys" target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-700 flex items-center gap-1 font-medium">
-                    Get API Key <ExternalLink size={12} />
-                  </a>
-                </div>
-              </div>
+            <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
 
-              {/* Model Selection */}
-              <div className="space-y-3">
-                <label className="block text-sm font-semibold text-slate-700">
-                  Preferred AI Model
-                </label>
-                <div className="grid grid-cols-1 gap-2 max-h-48 overflow-y-auto pr-1">
-                  {MODELS.map(model => (
-                    <div
-                      key={model.id}
-                      onClick={() => setSelectedModel(model.id)}
-                      className={`p-3 rounded-lg border cursor-pointer transition-all flex items-start gap-3 ${selectedModel === model.id ? 'border-blue-500 bg-blue-50/50 ring-1 ring-blue-500' : 'border-slate-200 hover:border-blue-300'}`}
-                    >
-                      <div className={`mt-0.5 w-4 h-4 rounded-full border flex items-center justify-center ${selectedModel === model.id ? 'border-blue-500' : 'border-slate-300'}`}>
-                        {selectedModel === model.id && <div className="w-2 h-2 rounded-full bg-blue-500" />}
-                      </div>
-                      <div>
-                        <div className="font-medium text-sm text-slate-900">{model.name}</div>
-                        <div className="text-xs text-slate-500">{model.desc}</div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
+              <AiProviderSettings providers={providers} onChange={setProviders} />
+
+              <SchoolProfileSettings profile={schoolProfile} onChange={setSchoolProfile} />
+
+              <GradeProfileSettings overrides={gradeOverrides} onChange={setGradeOverrides} />
+
+              <PromptTemplateSettings config={formConfig} />
 
             </div>
 
-            <div className="p-4 bg-gray-50 border-t border-gray-100 flex justify-end">
+            <div className="p-4 bg-gray-50 border-t border-gray-100 flex justify-between items-center">
+              {/* The library works offline, so it stays reachable without a key */}
+              {!aiReady ? (
+                <button
+                  onClick={() => { setShowSettings(false); setView(AppView.LIBRARY); }}
+                  className="flex items-center gap-1.5 text-sm font-medium text-emerald-700 hover:text-emerald-800"
+                >
+                  <Library size={16} /> Open Library
+                </button>
+              ) : <span />}
               <button
                 onClick={handleSaveSettings}
                 className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg transition shadow-sm"
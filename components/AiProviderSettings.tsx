@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Bot, ExternalLink, Key, Plus, Server, Trash2 } from 'lucide-react';
+import { AiProviderConfig, AiProviderType } from '../types';
+import { PROVIDER_TYPES, isProviderReady, newProviderConfig } from '../services/aiProviders';
+import EditableField from './EditableField';
+
+interface AiProviderSettingsProps {
+  providers: AiProviderConfig[];
+  onChange: (providers: AiProviderConfig[]) => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm";
+
+/**
+ * AI providers in fallback order. Each enabled provider is tried through its models
+ * before the next one, so a local server can back up Gemini or the other way round.
+ */
+const AiProviderSettings: React.FC<AiProviderSettingsProps> = ({ providers, onChange }) => {
+  const [newType, setNewType] = useState<AiProviderType>('openai');
+
+  const update = (idx: number, patch: Partial<AiProviderConfig>) =>
+    onChange(providers.map((p, i) => (i === idx ? { ...p, ...patch } : p)));
+
+  const move = (idx: number, delta: number) => {
+    const to = idx + delta;
+    if (to < 0 || to >= providers.length) return;
+    const next = [...providers];
+    [next[idx], next[to]] = [next[to], next[idx]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+        <Bot className="w-4 h-4 text-slate-400" /> AI providers <span className="text-red-500">*</span>
+      </label>
+      <p className="text-xs text-slate-500">Tried from top to bottom; each provider's models are tried in the order listed.</p>
+
+      {providers.map((provider, idx) => (
+        <div key={provider.id} className={`p-3 rounded-lg border space-y-2 ${provider.enabled ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+          <div className="flex items-center gap-2">
+            <input type="checkbox" checked={provider.enabled} onChange={(e) => update(idx, { enabled: e.target.checked })} title="Enabled" />
+            <input value={provider.name} onChange={(e) => update(idx, { name: e.target.value })} className="flex-1 font-medium text-sm text-slate-900 bg-transparent outline-none border-b border-transparent focus:border-blue-400" />
+            <span className="text-[10px] font-semibold uppercase text-slate-400">{PROVIDER_TYPES.find(t => t.id === provider.type)?.label}</span>
+            {provider.enabled && !isProviderReady(provider) && <span className="text-[10px] font-bold text-red-500">incomplete</span>}
+            <button onClick={() => move(idx, -1)} disabled={idx === 0} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Try earlier"><ArrowUp size={14} /></button>
+            <button onClick={() => move(idx, 1)} disabled={idx === providers.length - 1} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Try later"><ArrowDown size={14} /></button>
+            <button onClick={() => onChange(providers.filter((_, i) => i !== idx))} className="p-1 text-slate-400 hover:text-red-600" title="Remove provider"><Trash2 size={14} /></button>
+          </div>
+
+          {provider.type === 'openai' && (
+            <div className="relative">
+              <Server className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input value={provider.baseUrl || ''} onChange={(e) => update(idx, { baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={`${inputClass} pl-10`} />
+            </div>
+          )}
+
+          {provider.type !== 'mock' && (
+            <div className="relative">
+              <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="password"
+                value={provider.apiKey || ''}
+                onChange={(e) => update(idx, { apiKey: e.target.value })}
+                placeholder={provider.type === 'gemini' ? "Enter your AI Studio API Key" : "API key (leave empty for a local server)"}
+                className={`${inputClass} pl-10`}
+              />
+            </div>
+          )}
+
+          {/* Committed on blur so commas can be typed */}
+          <EditableField
+            value={provider.models.join(', ')}
+            onCommit={(v) => update(idx, { models: v.split(',').map(m => m.trim()).filter(Boolean) })}
+            placeholder="Models in order, comma-separated"
+            className="text-sm"
+          />
+
+          {provider.type === 'openai' && (
+            <label className="flex items-center gap-2 text-xs text-slate-500" title="Sends stream_options.include_usage; leave off if the server rejects streamed requests">
+              <input type="checkbox" checked={!!provider.streamUsage} onChange={(e) => update(idx, { streamUsage: e.target.checked })} />
+              Report token usage for streamed steps (OpenAI supports it; some local servers do not)
+            </label>
+          )}
+
+          {provider.type === 'gemini' && (
+            <div className="text-xs text-slate-500 flex justify-between items-center">
+              <span>First model is preferred; the rest are fallbacks</span>
+              <a href="https://aistudio.google.com/api-keys" target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-700 flex items-center gap-1 font-medium">
+                Get API Key <ExternalLink size={12} />
+              </a>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <select value={newType} onChange={(e) => setNewType(e.target.value as AiProviderType)} className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm outline-none bg-white" title={PROVIDER_TYPES.find(t => t.id === newType)?.desc}>
+          {PROVIDER_TYPES.map(t => <option key={t.id} value={t.id}>{t.label} – {t.desc}</option>)}
+        </select>
+        <button onClick={() => onChange([...providers, newProviderConfig(newType)])} className="flex items-center gap-1 px-3 py-2 text-sm font-semibold text-blue-700 hover:bg-blue-50 rounded-lg transition">
+          <Plus size={14} /> Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AiProviderSettings;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { ExamData } from '../types';
+import { OPTION_LETTERS } from '../services/examUtils';
+import { buildAnswerSheetLayout, SHEET_DIGITS, SBD_LENGTH, EXAM_CODE_LENGTH } from '../services/answerSheetService';
+
+interface AnswerSheetProps {
+  data: ExamData;
+  className?: string;
+}
+
+const Bubble: React.FC<{ label: string }> = ({ label }) => (
+  <span className="inline-flex items-center justify-center w-5 h-5 rounded-full border border-black text-[9px] leading-none">
+    {label}
+  </span>
+);
+
+/**
+ * Grid of digit bubbles, one column per digit (used for SBD and mã đề).
+ */
+const DigitGrid: React.FC<{ title: string; columns: number }> = ({ title, columns }) => (
+  <div className="border border-black">
+    <div className="text-center text-[11px] font-bold border-b border-black py-1 px-2">{title}</div>
+    <div className="flex">
+      {Array.from({ length: columns }).map((_, col) => (
+        <div key={col} className="flex flex-col items-center gap-0.5 px-1 py-1 border-r last:border-r-0 border-gray-300">
+          <div className="w-5 h-5 border border-black mb-1" />
+          {SHEET_DIGITS.map(d => <Bubble key={d} label={d} />)}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const AnswerSheet: React.FC<AnswerSheetProps> = ({ data, className }) => {
+  const { choiceBlocks, writtenItems } = buildAnswerSheetLayout(data);
+
+  return (
+    <div className={`bg-white p-10 sm:p-12 min-h-[1100px] border border-gray-300 font-serif text-black shadow-2xl ${className}`}>
+      <div className="text-center mb-6">
+        <h2 className="font-bold text-[16px] uppercase">Phiếu trả lời trắc nghiệm</h2>
+        <p className="text-[12px] italic">{data.examTitle} — Môn: Tiếng Anh</p>
+      </div>
+
+      <div className="flex gap-4 items-start mb-8">
+        <div className="flex-1 space-y-3 text-[12px] pt-2">
+          <p>Họ và tên thí sinh: ......................................................................</p>
+          <p>Lớp: ............................ Phòng thi: ............................</p>
+          <p>Chữ ký giám thị: ................................................................</p>
+          <p className="text-[10px] italic text-gray-600 pt-2">
+            Dùng bút chì tô kín ô tròn tương ứng với phương án đúng. Ghi số báo danh và mã đề rồi tô các ô số tương ứng.
+          </p>
+        </div>
+        <DigitGrid title="Số báo danh" columns={SBD_LENGTH} />
+        <DigitGrid title="Mã đề" columns={EXAM_CODE_LENGTH} />
+      </div>
+
+      {choiceBlocks.length > 0 && (
+        <div className="mb-8">
+          <h3 className="text-[13px] font-bold uppercase mb-3 border-b border-black pb-1">Phần trắc nghiệm</h3>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            {choiceBlocks.map((block, bIdx) => (
+              <div key={bIdx} className="border border-black p-2 space-y-1">
+                {block.map(item => (
+                  <div key={item.questionId} className="flex items-center gap-1.5 text-[11px]">
+                    <span className="w-6 text-right font-bold">{item.label}</span>
+                    {OPTION_LETTERS.map(l => <Bubble key={l} label={l} />)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {writtenItems.length > 0 && (
+        <div>
+          <h3 className="text-[13px] font-bold uppercase mb-3 border-b border-black pb-1">Phần tự luận</h3>
+          <div className="space-y-2">
+            {writtenItems.map(item => (
+              <div key={item.questionId} className="flex items-stretch gap-2 text-[12px] exam-question">
+                <span className="w-20 font-bold pt-1">{item.questionId}</span>
+                <div className="flex-1 border border-black h-10" />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnswerSheet;
@@ -0,0 +1,62 @@
+import React, { useState, useEffect } from 'react';
+
+interface EditableFieldProps {
+  value: string;
+  onCommit: (value: string) => void;
+  multiline?: boolean;
+  /** Single-line fields only; "number" shows the browser's number input. */
+  type?: 'text' | 'number';
+  min?: string;
+  step?: string;
+  placeholder?: string;
+  title?: string;
+  className?: string;
+}
+
+/**
+ * Text input that keeps a local draft and commits on blur (or Enter for single-line),
+ * so one edit becomes one undo step instead of one step per keystroke.
+ */
+const EditableField: React.FC<EditableFieldProps> = ({ value, onCommit, multiline, type = 'text', min, step, placeholder, title, className }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  const baseClass = `w-full px-2 py-1 rounded border border-dashed border-blue-300 bg-blue-50/40 focus:bg-white focus:border-blue-500 outline-none font-[inherit] ${className || ''}`;
+
+  if (multiline) {
+    return (
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        placeholder={placeholder}
+        rows={Math.min(12, Math.max(2, draft.split('\n').length))}
+        className={baseClass}
+      />
+    );
+  }
+
+  return (
+    <input
+      type={type}
+      min={min}
+      step={step}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+      placeholder={placeholder}
+      title={title}
+      className={baseClass}
+    />
+  );
+};
+
+export default EditableField;
@@ -1,15 +1,16 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { FileText, BookOpen, Clock, FileUp, Flame, School, Languages, RefreshCw, Upload, Library, X, Trash2, LayoutTemplate, AlertTriangle } from 'lucide-react';
-import { ExamConfig } from '../types';
-import * as mammoth from 'mammoth';
-import * as pdfjsLib from 'pdfjs-dist';
-
-// PDFJS worker config
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.0.379/pdf.worker.min.mjs`;
+import { ExamConfig, GradeProfileOverrides, SchoolStage } from '../types';
+import { extractTextFromFile } from '../services/documentText';
+import { SCHOOL_STAGES, getGradeProfiles, getStageOptions } from '../services/gradeProfiles';
 
 interface ExamFormProps {
   onSubmit: (config: ExamConfig) => void;
+  /** Called with the current form values whenever they change. */
+  onChange?: (config: ExamConfig) => void;
+  /** The school's changes to the grade profiles: grades, badges, durations and topics. */
+  gradeOverrides: GradeProfileOverrides;
   isGenerating: boolean;
 }
 
@@ -19,36 +20,22 @@ interface ReferenceItem {
   content: string;
 }
 
-const LEVELS = {
-  PRIMARY: 'Primary',
-  MIDDLE: 'Middle School',
-  HIGH: 'High School'
+const STAGE_COLORS: Record<SchoolStage, string> = {
+  'Primary': 'text-green-600',
+  'Middle School': 'text-blue-600',
+  'High School': 'text-orange-600',
 };
 
-const DATA = {
-  [LEVELS.PRIMARY]: {
-    grades: ['Grade 3', 'Grade 4', 'Grade 5'],
-    times: ['45 minutes', '60 minutes'],
-    trends: ['AI Generated', 'Greetings & Introductions', 'Family & Friends', 'School & Classroom', 'Animals & Pets', 'Food & Drinks', 'Hobbies & Sports', 'Weather & Seasons']
-  },
-  [LEVELS.MIDDLE]: {
-    grades: ['Grade 6', 'Grade 7', 'Grade 8', 'Grade 9', 'Grade 10 Entrance'],
-    times: ['45 minutes', '60 minutes', '90 minutes'],
-    trends: ['AI Generated', 'Personal Information', 'Education & School Life', 'Environment & Nature', 'Entertainment & Media', 'Health & Lifestyle', 'Technology & Communication']
-  },
-  [LEVELS.HIGH]: {
-    grades: ['Grade 10', 'Grade 11', 'Grade 12', 'National High School Exam'],
-    times: ['60 minutes (National)', '90 minutes'],
-    trends: ['AI Generated', 'Education & Career', 'Science & Technology', 'Global Issues & Environment', 'Cultural Diversity', 'Economics & Business', 'Social Problems']
-  }
-};
+const ExamForm: React.FC<ExamFormProps> = ({ onSubmit, onChange, gradeOverrides, isGenerating }) => {
+  const profiles = getGradeProfiles(gradeOverrides);
+  const stageGrades = (stage: SchoolStage) => profiles.filter(p => p.stage === stage).map(p => p.grade);
+  const options = (stage: SchoolStage) => getStageOptions(stage, gradeOverrides);
 
-const ExamForm: React.FC<ExamFormProps> = ({ onSubmit, isGenerating }) => {
-  const [level, setLevel] = useState<string>(LEVELS.MIDDLE);
-  const [gradeLevel, setGradeLevel] = useState(DATA[LEVELS.MIDDLE].grades[3]);
-  const [examType, setExamType] = useState(DATA[LEVELS.MIDDLE].times[1]);
+  const [level, setLevel] = useState<SchoolStage>('Middle School');
+  const [gradeLevel, setGradeLevel] = useState(() => stageGrades('Middle School')[3]);
+  const [examType, setExamType] = useState(() => options('Middle School').times[1]);
   const [topic, setTopic] = useState('');
-  const [trendingTopic, setTrendingTopic] = useState(DATA[LEVELS.MIDDLE].trends[0]);
+  const [trendingTopic, setTrendingTopic] = useState(() => options('Middle School').trends[0]);
 
   const [matrixContent, setMatrixContent] = useState('');
   const [specificationContent, setSpecificationContent] = useState('');
@@ -66,34 +53,12 @@ const ExamForm: React.FC<ExamFormProps> = ({ onSubmit, isGenerating }) => {
   const refFileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    const data = DATA[level as keyof typeof DATA];
-    setGradeLevel(data.grades[0]);
+    const data = options(level);
+    setGradeLevel(stageGrades(level)[0]);
     setExamType(data.times[Math.min(1, data.times.length - 1)]);
     setTrendingTopic(data.trends[0]);
   }, [level]);
 
-  const extractTextFromFile = async (file: File): Promise<string> => {
-    const fileType = file.name.split('.').pop()?.toLowerCase();
-
-    if (fileType === 'docx') {
-      const arrayBuffer = await file.arrayBuffer();
-      const result = await mammoth.extractRawText({ arrayBuffer });
-      return result.value;
-    } else if (fileType === 'pdf') {
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-      let fullText = "";
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items.map((item: any) => item.str).join(" ");
-        fullText += pageText + "\n";
-      }
-      return fullText;
-    }
-    throw new Error("Unsupported format (use .docx, .pdf)");
-  };
-
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, target: 'matrix' | 'spec' | 'ref' | 'structure') => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
@@ -144,17 +109,12 @@ const ExamForm: React.FC<ExamFormProps> = ({ onSubmit, isGenerating }) => {
 
   const totalRefLength = references.reduce((acc, r) => acc + r.content.length, 0);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (totalRefLength > 50000) {
-      if (!confirm("Your training data is very large. This might cause the AI to fail or take a long time. Proceed?")) return;
-    }
-
+  const buildConfig = (): ExamConfig => {
     const combinedRefs = references
       .map(r => `--- SOURCE: ${r.name} ---\n${r.content}`)
       .join('\n\n');
 
-    onSubmit({
+    return {
       level,
       gradeLevel,
       examType,
@@ -164,7 +124,21 @@ const ExamForm: React.FC<ExamFormProps> = ({ onSubmit, isGenerating }) => {
       specificationContent,
       structureContent,
       referenceContent: combinedRefs
-    });
+    };
+  };
+
+  // Lets Settings preview the prompts with what is filled in so far
+  useEffect(() => {
+    onChange?.(buildConfig());
+  }, [level, gradeLevel, examType, topic, trendingTopic, matrixContent, specificationContent, structureContent, references]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (totalRefLength > 50000) {
+      if (!confirm("Your training data is very large. This might cause the AI to fail or take a long time. Proceed?")) return;
+    }
+
+    onSubmit(buildConfig());
   };
 
   return (
@@ -184,7 +158,7 @@ const ExamForm: React.FC<ExamFormProps> = ({ onSubmit, isGenerating }) => {
 
       <div className="bg-white rounded-xl shadow-lg border border-slate-100 overflow-hidden">
         <div className="flex border-b border-gray-200">
-          {Object.values(LEVELS).map((lvl) => (
+          {SCHOOL_STAGES.map((lvl) => (
             <button
               key={lvl}
               type="button"
@@ -211,38 +185,22 @@ const ExamForm: React.FC<ExamFormProps> = ({ onSubmit, isGenerating }) => {
                   onChange={(e) => setGradeLevel(e.target.value)}
                   className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-green-500 outline-none bg-slate-50"
                 >
-                  {DATA[level as keyof typeof DATA].grades.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                  {stageGrades(level).map(opt => <option key={opt} value={opt}>{opt}</option>)}
                 </select>
 
                 {/* Difficulty Indicator */}
                 {(() => {
-                  const diffMap: Record<string, { stars: number, label: string, desc: string, color: string }> = {
-                    'Grade 3': { stars: 1, label: 'Starter (A1)', desc: 'Basic vocab (500+), simple sentences', color: 'text-green-500' },
-                    'Grade 4': { stars: 1, label: 'Movers (A1+)', desc: 'Daily topics, present tenses', color: 'text-green-600' },
-                    'Grade 5': { stars: 2, label: 'Flyers (A2)', desc: 'Expanded vocab, simple stories', color: 'text-green-700' },
-
-                    'Grade 6': { stars: 2, label: 'Ket (A2)', desc: 'Topic vocab (1500+), basic grammar', color: 'text-blue-500' },
-                    'Grade 7': { stars: 3, label: 'Pet (A2/B1)', desc: 'Conditionals, diverse topics', color: 'text-blue-600' },
-                    'Grade 8': { stars: 3, label: 'Pet (B1)', desc: 'Passive voice, reported speech', color: 'text-blue-700' },
-                    'Grade 9': { stars: 4, label: 'FCE (B1+)', desc: 'Complex structures, abstract concepts', color: 'text-indigo-600' },
-                    'Grade 10 Entrance': { stars: 4, label: 'Entrance Exam', desc: 'High difficulty for 9th graders', color: 'text-indigo-800' },
-
-                    'Grade 10': { stars: 4, label: 'Standard (B1)', desc: 'Academic vocab (3000+), social issues', color: 'text-orange-500' },
-                    'Grade 11': { stars: 5, label: 'Advanced (B2)', desc: 'Inversion, advanced conditionals', color: 'text-orange-600' },
-                    'Grade 12': { stars: 5, label: 'Proficiency (B2)', desc: 'Literature analysis, specialized topics', color: 'text-red-500' },
-                    'National High School Exam': { stars: 5, label: 'University Entrance', desc: 'Maximum academic complexity', color: 'text-red-600' },
-                  };
-
-                  const info = diffMap[gradeLevel] || { stars: 3, label: 'Standard', desc: '', color: 'text-slate-500' };
+                  const info = profiles.find(p => p.grade === gradeLevel);
+                  if (!info) return null;
 
                   return (
                     <div className="flex items-start gap-2 p-2 bg-slate-50 rounded border border-slate-100 text-xs">
-                      <div className={`mt-0.5 font-bold ${info.color}`}>
+                      <div className={`mt-0.5 font-bold ${STAGE_COLORS[info.stage]}`}>
                         {'★'.repeat(info.stars)}{'☆'.repeat(5 - info.stars)}
                       </div>
                       <div>
                         <div className="font-semibold text-slate-700">{info.label}</div>
-                        <div className="text-slate-500 leading-tight">{info.desc}</div>
+                        <div className="text-slate-500 leading-tight">{info.summary}</div>
                       </div>
                     </div>
                   );
@@ -259,7 +217,7 @@ const ExamForm: React.FC<ExamFormProps> = ({ onSubmit, isGenerating }) => {
                 onChange={(e) => setExamType(e.target.value)}
                 className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-green-500 outline-none bg-slate-50"
               >
-                {DATA[level as keyof typeof DATA].times.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                {options(level).times.map(opt => <option key={opt} value={opt}>{opt}</option>)}
               </select>
             </div>
 
@@ -272,7 +230,7 @@ const ExamForm: React.FC<ExamFormProps> = ({ onSubmit, isGenerating }) => {
                 onChange={(e) => setTrendingTopic(e.target.value)}
                 className="w-full px-4 py-2 rounded-lg border border-orange-200 focus:ring-2 focus:ring-orange-500 outline-none bg-orange-50 text-orange-900 font-medium"
               >
-                {DATA[level as keyof typeof DATA].trends.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                {options(level).trends.map(opt => <option key={opt} value={opt}>{opt}</option>)}
               </select>
             </div>
           </div>
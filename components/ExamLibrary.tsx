@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Library, Search, FolderOpen, Copy, Trash2, RefreshCw, Calendar } from 'lucide-react';
+import { SavedExam } from '../types';
+import { listSavedExams, duplicateSavedExam, deleteSavedExam, filterSavedExams } from '../services/libraryService';
+
+interface ExamLibraryProps {
+  onOpen: (saved: SavedExam) => void;
+}
+
+const ExamLibrary: React.FC<ExamLibraryProps> = ({ onOpen }) => {
+  const [exams, setExams] = useState<SavedExam[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [query, setQuery] = useState('');
+  const [gradeLevel, setGradeLevel] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      setExams(await listSavedExams());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Could not open the local library.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const grades = useMemo(
+    () => Array.from(new Set(exams.map(e => e.config?.gradeLevel).filter(Boolean) as string[])).sort(),
+    [exams]
+  );
+  const visible = filterSavedExams(exams, { query, gradeLevel, from, to });
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateSavedExam(id);
+      refresh();
+    } catch (err: any) {
+      setError(err.message || "Could not duplicate the exam.");
+    }
+  };
+
+  const handleDelete = async (saved: SavedExam) => {
+    if (!confirm(`Delete "${saved.title}" from the library?`)) return;
+    try {
+      await deleteSavedExam(saved.id);
+      refresh();
+    } catch (err: any) {
+      setError(err.message || "Could not delete the exam.");
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+          <Library className="w-6 h-6 text-emerald-600" /> Exam Library
+        </h2>
+        <span className="text-sm text-slate-500">{exams.length} saved exam(s) on this device</span>
+      </div>
+
+      <div className="bg-white rounded-xl shadow border border-slate-100 p-4 mb-6 grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="relative md:col-span-2">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search title, grade or topic..."
+            className="w-full pl-10 pr-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-emerald-500 outline-none"
+          />
+        </div>
+        <select
+          value={gradeLevel}
+          onChange={(e) => setGradeLevel(e.target.value)}
+          className="px-3 py-2 rounded-lg border border-slate-300 bg-slate-50"
+        >
+          <option value="">All grades</option>
+          {grades.map(g => <option key={g} value={g}>{g}</option>)}
+        </select>
+        <div className="flex items-center gap-1 text-sm">
+          <Calendar className="w-4 h-4 text-slate-400 flex-shrink-0" />
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-full px-1 py-2 rounded border border-slate-300" title="From" />
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-full px-1 py-2 rounded border border-slate-300" title="To" />
+        </div>
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-50 text-red-700 rounded border border-red-100 text-sm">{error}</div>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16 text-slate-400"><RefreshCw className="animate-spin" /></div>
+      ) : visible.length === 0 ? (
+        <div className="text-center py-16 border-2 border-dashed border-slate-200 rounded-xl bg-slate-50 text-slate-400">
+          {exams.length === 0 ? "No saved exams yet. Generated exams are saved here automatically." : "No exams match your filters."}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(saved => (
+            <div key={saved.id} className="bg-white rounded-xl border border-slate-200 p-4 flex items-center justify-between gap-4 hover:shadow-md transition">
+              <div className="min-w-0">
+                <div className="font-bold text-slate-800 truncate">{saved.title}</div>
+                <div className="text-xs text-slate-500 mt-1 flex flex-wrap gap-x-3">
+                  {saved.config?.gradeLevel && <span>{saved.config.gradeLevel}</span>}
+                  {saved.config?.trendingTopic && <span>{saved.config.trendingTopic}</span>}
+                  <span>{saved.exam.content.reduce((acc, s) => acc + s.questions.length, 0)} questions</span>
+                  <span>{new Date(saved.createdAt).toLocaleString()}</span>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button onClick={() => onOpen(saved)} className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition">
+                  <FolderOpen size={14} /> Open
+                </button>
+                <button onClick={() => handleDuplicate(saved.id)} className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition" title="Duplicate">
+                  <Copy size={16} />
+                </button>
+                <button onClick={() => handleDelete(saved)} className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition" title="Delete">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExamLibrary;
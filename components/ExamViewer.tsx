@@ -1,26 +1,132 @@
-import React from 'react';
-import { ExamData } from '../types';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus, Sparkles } from 'lucide-react';
+import { ExamData, ExamImage, Question, QuestionKind, SchoolProfile } from '../types';
+import * as editor from '../services/examEditor';
+import { DEFAULT_SCHOOL_PROFILE, examPeriodLine } from '../services/schoolProfile';
+import { paperBlocks, paginateBlocks, joinPassagePieces, pageCountLabel, pageFooterPrefix, PageBlock, ExamPage, PAGE_BODY_MM } from '../services/paginationService';
+import { QUESTION_KINDS, formatPartLines, parsePartLines } from '../services/questionKinds';
+import { readImageFiles } from '../services/imageService';
+import EditableField from './EditableField';
+import ImageAttachments from './ImageAttachments';
+import InlineText from './InlineText';
+import QuestionBody, { QuestionStem } from './QuestionBody';
 
 interface ExamViewerProps {
   data: ExamData;
   className?: string;
+  examCode?: string;
+  editable?: boolean;
+  /** Takes the new exam, or an updater for changes that land after an await. */
+  onChange?: (update: ExamData | ((current: ExamData) => ExamData)) => void;
+  onRegenerateQuestion?: (sIdx: number, qIdx: number) => void;
+  onRegenerateSection?: (sIdx: number) => void;
+  highlightQuestionId?: string | null;
+  profile?: SchoolProfile;
 }
 
-const ExamViewer: React.FC<ExamViewerProps> = ({ data, className }) => {
-  return (
-    <div className={`bg-white p-10 sm:p-14 min-h-[1100px] border border-gray-300 font-serif text-black leading-relaxed shadow-2xl relative ${className}`}>
+const iconButton = "p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent transition";
+const regenButton = "p-1 rounded text-purple-400 hover:text-purple-700 hover:bg-purple-50 transition no-print font-sans";
+const sheetClass = "bg-white px-10 sm:px-14 py-12 border border-gray-300 font-serif text-black leading-relaxed shadow-2xl relative";
+// A real A4 sheet: 20 mm margins, a 10 mm footer line and the 170 mm text width the blocks are measured at
+const pageClass = "exam-page bg-white w-[210mm] min-h-[297mm] p-[20mm] border border-gray-300 font-serif text-black leading-relaxed shadow-2xl relative flex flex-col";
+const PX_PER_MM = 96 / 25.4;
+const A4_WIDTH_PX = 210 * PX_PER_MM;
+
+const ExamViewer: React.FC<ExamViewerProps> = ({
+  data,
+  className,
+  examCode,
+  editable = false,
+  onChange,
+  onRegenerateQuestion,
+  onRegenerateSection,
+  highlightQuestionId,
+  profile = DEFAULT_SCHOOL_PROFILE
+}) => {
+  const isEditing = editable && !!onChange;
+  const apply = (next: ExamData) => onChange?.(next);
+
+  // Image files dropped on a question or section are attached to it. Reading the files is
+  // async, so the images are added to the exam as it is then, not as it was at the drop.
+  const imageDrop = (current: (exam: ExamData) => ExamImage[] | undefined, attach: (exam: ExamData, images: ExamImage[]) => ExamData) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (e.dataTransfer.types.includes("Files")) e.preventDefault();
+    },
+    onDrop: async (e: React.DragEvent) => {
+      if (e.dataTransfer.files.length === 0) return;
+      e.preventDefault();
+      e.stopPropagation();
+      try {
+        const added = await readImageFiles(e.dataTransfer.files);
+        if (added.length > 0) onChange?.(exam => attach(exam, [...(current(exam) || []), ...added]));
+      } catch (err: any) {
+        alert(err.message || "Could not read the image.");
+      }
+    },
+  });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const measureRef = useRef<HTMLDivElement>(null);
+  const period = examPeriodLine(profile);
+  const blocks = useMemo(() => paperBlocks(data.content), [data.content]);
+  const [pages, setPages] = useState<ExamPage[]>([]);
+  const [fontsReady, setFontsReady] = useState(false);
+  const [zoom, setZoom] = useState(1);
+
+  // Text reflows once the web fonts arrive, so the pages are measured again
+  useEffect(() => {
+    document.fonts?.ready.then(() => setFontsReady(true));
+  }, []);
+
+  // Pages are broken from the rendered height of every block, as the printer will lay them out
+  useLayoutEffect(() => {
+    const measurer = measureRef.current;
+    if (isEditing || !measurer) return;
+    const heights = Array.from(measurer.children, el => (el as HTMLElement).getBoundingClientRect().height);
+    setPages(paginateBlocks(blocks, heights, PAGE_BODY_MM * PX_PER_MM));
+  }, [blocks, data, profile, examCode, isEditing, fontsReady]);
+
+  // Sheets keep their A4 size and are scaled down to fit a narrower column
+  useEffect(() => {
+    const container = containerRef.current;
+    if (isEditing || !container) return;
+    const observer = new ResizeObserver(() => setZoom(Math.min(1, container.clientWidth / A4_WIDTH_PX)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [isEditing]);
+
+  // Bring a question into view when another panel links to it
+  useEffect(() => {
+    if (!highlightQuestionId) return;
+    const target = containerRef.current?.querySelector(`[data-question-id="${CSS.escape(highlightQuestionId)}"]`);
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightQuestionId]);
+
+  const header = (
+    <>
       {/* Header Section */}
       <div className="flex justify-between items-start mb-6">
         <div className="text-center w-5/12 text-[12px] font-bold uppercase">
-          <p>SỞ GIÁO DỤC VÀ ĐÀO TẠO</p>
+          {profile.department && <p className="font-normal">{profile.department}</p>}
+          {profile.school && <p>{profile.school}</p>}
           <p>--------------------</p>
-          <p className="text-[10px] normal-case font-normal">(Đề thi có 04 trang)</p>
+          {/* Also rendered before the first layout, so the measured header has its height */}
+          {!isEditing && <p className="text-[10px] normal-case font-normal">{pageCountLabel(pages.length || 1)}</p>}
         </div>
         <div className="text-center w-6/12">
-          <h2 className="uppercase font-bold text-[14px] leading-tight">{data.examTitle || "EXAM PAPER"}</h2>
-          <p className="text-[13px] font-bold mt-1 uppercase">MÔN: TIẾNG ANH</p>
-          <p className="text-[11px] mt-1 italic">Thời gian làm bài: {data.duration}</p>
-          <p className="text-[10px] mt-0.5 italic text-gray-600">(không kể thời gian phát đề)</p>
+          {isEditing ? (
+            <div className="space-y-1">
+              <EditableField value={data.examTitle || ""} onCommit={(v) => apply(editor.updateExamMeta(data, { examTitle: v }))} className="text-center font-bold text-[14px]" placeholder="Exam title" />
+              <EditableField value={data.duration || ""} onCommit={(v) => apply(editor.updateExamMeta(data, { duration: v }))} className="text-center text-[11px]" placeholder="Duration" />
+            </div>
+          ) : (
+            <>
+              {period && <p className="uppercase font-bold text-[12px] mb-1">{period}</p>}
+              <h2 className="uppercase font-bold text-[14px] leading-tight">{data.examTitle || "EXAM PAPER"}</h2>
+              <p className="text-[13px] font-bold mt-1 uppercase">MÔN: TIẾNG ANH</p>
+              <p className="text-[11px] mt-1 italic">Thời gian làm bài: {data.duration}</p>
+              <p className="text-[10px] mt-0.5 italic text-gray-600">(không kể thời gian phát đề)</p>
+            </>
+          )}
         </div>
       </div>
 
@@ -30,80 +136,210 @@ const ExamViewer: React.FC<ExamViewerProps> = ({ data, className }) => {
           <p>Họ và tên: ............................................................................................</p>
           <p>Số báo danh: ........................................................................................</p>
         </div>
-        <div className="ml-4">
-          <div className="border-2 border-black p-3 text-center min-w-[120px]">
-            <p className="font-bold text-[14px]">Mã đề thi: 101</p>
+        {examCode && (
+          <div className="ml-4">
+            <div className="border-2 border-black p-3 text-center min-w-[120px]">
+              <p className="font-bold text-[14px]">Mã đề thi: {examCode}</p>
+            </div>
           </div>
+        )}
+      </div>
+    </>
+  );
+
+  const theEnd = (
+    <div className="text-center mt-16 text-[12px] font-bold italic pt-8 border-t border-gray-100 uppercase tracking-[0.3em]">
+      ------ THE END ------
+    </div>
+  );
+
+  const renderQuestion = (q: Question, idx: number, qIdx: number) => (
+    <div key={q.id} data-question-id={q.id} className={`exam-question text-[13.5px] group ${q.id === highlightQuestionId ? 'ring-2 ring-amber-400 ring-offset-4 rounded' : ''}`}>
+      <div className="flex gap-2 mb-1.5">
+        <span className="font-bold whitespace-nowrap">{q.id}.</span>
+        <div className="flex-1">
+          <QuestionStem question={q} />
+          {q.points && <span className="text-[10px] font-bold italic text-gray-500 ml-2">({q.points} pts)</span>}
         </div>
+        {onRegenerateQuestion && (
+          <button type="button" className={`${regenButton} opacity-0 group-hover:opacity-100 self-start`} onClick={() => onRegenerateQuestion(idx, qIdx)} title="Regenerate question">
+            <Sparkles size={14} />
+          </button>
+        )}
       </div>
+      <ImageAttachments images={q.images} />
+      <QuestionBody question={q} />
+    </div>
+  );
+
+  const renderBlock = (block: PageBlock, key: number) => {
+    switch (block.kind) {
+      case "header":
+        return <React.Fragment key={key}>{header}</React.Fragment>;
+      case "section":
+        return (
+          <React.Fragment key={key}>
+            <h3 className="text-[14px] font-bold uppercase mt-8 mb-4 tracking-tight border-b border-black pb-1 flex items-center justify-between gap-2 group">
+              <span><InlineText text={data.content[block.sIdx].section} /></span>
+              {onRegenerateSection && (
+                <button type="button" className={`${regenButton} opacity-0 group-hover:opacity-100`} onClick={() => onRegenerateSection(block.sIdx)} title="Regenerate section">
+                  <Sparkles size={14} />
+                </button>
+              )}
+            </h3>
+            <ImageAttachments images={data.content[block.sIdx].images} />
+          </React.Fragment>
+        );
+      case "passage":
+        return (
+          <div key={key} className={`${block.endsPassage ? "mb-6" : ""} italic text-[13px] whitespace-pre-wrap leading-relaxed text-justify px-2 font-sans border-l-2 border-gray-100`}>
+            <InlineText text={block.text} />
+          </div>
+        );
+      case "question":
+        return <div key={key} className="mb-8">{renderQuestion(data.content[block.sIdx].questions[block.qIdx], block.sIdx, block.qIdx)}</div>;
+      case "end":
+        return <React.Fragment key={key}>{theEnd}</React.Fragment>;
+    }
+  };
+
+  // Each block in its own flow root, so its margins count towards the height measured for it
+  const renderPageBlock = (block: PageBlock, key: number) => <div key={key} className="flow-root">{renderBlock(block, key)}</div>;
+
+  if (!isEditing) {
+    return (
+      <>
+        <div ref={containerRef} className={className}>
+          <div className="exam-pages space-y-6" style={{ zoom }}>
+            {pages.map((page, pageIdx) => (
+              <div key={pageIdx} className={pageClass}>
+                <div className="flex-1">{joinPassagePieces(page.blocks).map(renderPageBlock)}</div>
+                {/* Running footer on every page */}
+                <div className="h-[10mm] flex items-end justify-end text-[10px] font-bold">
+                  {pageFooterPrefix(examCode)}Trang {pageIdx + 1}/{pages.length}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+        {/* Off-screen copy of the blocks at the printed text width, measured for the page breaks */}
+        <div ref={measureRef} aria-hidden className="no-print fixed top-0 -left-[10000px] invisible w-[170mm] font-serif text-black leading-relaxed">
+          {blocks.map(renderPageBlock)}
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className={`${sheetClass} min-h-[1100px] ${className}`}>
+      {header}
 
       {/* Exam Content */}
       <div className="space-y-12">
         {data.content?.map((section, idx) => (
-          <div key={idx} className="exam-section">
-            <h3 className="text-[14px] font-bold uppercase mb-4 tracking-tight border-b border-black pb-1">
-              {section.section}
-            </h3>
-            
-            {section.text && (
-              <div className="mb-6 italic text-[13px] whitespace-pre-wrap leading-relaxed text-justify px-2 font-sans border-l-2 border-gray-100 py-1">
-                {section.text}
-              </div>
-            )}
+          <div key={idx} className="exam-section" {...imageDrop(exam => exam.content[idx]?.images, (exam, images) => editor.updateSection(exam, idx, { images }))}>
+            <div className="flex items-center gap-1 mb-4 no-print">
+              <EditableField value={section.section} onCommit={(v) => apply(editor.updateSection(data, idx, { section: v }))} className="font-bold uppercase text-[14px]" />
+              <button type="button" className={iconButton} disabled={idx === 0} onClick={() => apply(editor.moveSection(data, idx, -1))} title="Move section up"><ArrowUp size={16} /></button>
+              <button type="button" className={iconButton} disabled={idx === data.content.length - 1} onClick={() => apply(editor.moveSection(data, idx, 1))} title="Move section down"><ArrowDown size={16} /></button>
+              <button type="button" className={`${iconButton} hover:text-red-600`} onClick={() => confirm("Delete this section and its questions?") && apply(editor.deleteSection(data, idx))} title="Delete section"><Trash2 size={16} /></button>
+              {onRegenerateSection && <button type="button" className={regenButton} onClick={() => onRegenerateSection(idx)} title="Regenerate section"><Sparkles size={16} /></button>}
+            </div>
+
+            <div className="mb-6">
+              <EditableField multiline value={section.text || ""} onCommit={(v) => apply(editor.updateSection(data, idx, { text: v || undefined }))} placeholder="Shared passage (optional)" className="text-[13px] font-sans" />
+              <ImageAttachments images={section.images} onChange={(images) => apply(editor.updateSection(data, idx, { images }))} />
+            </div>
 
             <div className="space-y-8">
-              {section.questions?.map((q) => (
-                <div key={q.id} className="exam-question text-[13.5px]">
-                  <div className="flex gap-2 mb-1.5">
-                    <span className="font-bold whitespace-nowrap">{q.id}.</span>
+              {section.questions?.map((q, qIdx) => (
+                <div key={q.id} data-question-id={q.id} className="exam-question text-[13.5px] p-3 rounded-lg border border-dashed border-slate-200" {...imageDrop(exam => exam.content[idx]?.questions[qIdx]?.images, (exam, images) => editor.updateQuestion(exam, idx, qIdx, { images }))}>
+                  <div className="flex gap-2 mb-1.5 items-start">
+                    <span className="font-bold whitespace-nowrap pt-1">{q.id}.</span>
                     <div className="flex-1">
-                      <span className="text-justify leading-tight">{q.text}</span>
-                      {q.points && <span className="text-[10px] font-bold italic text-gray-500 ml-2">({q.points} pts)</span>}
+                      <EditableField multiline value={q.text} onCommit={(v) => apply(editor.updateQuestion(data, idx, qIdx, { text: v }))} placeholder="Question text" />
+                    </div>
+                    <div className="w-16">
+                      <EditableField
+                        type="number"
+                        step="0.05"
+                        min="0"
+                        value={String(q.points ?? 0)}
+                        onCommit={(v) => apply(editor.updateQuestion(data, idx, qIdx, { points: Number(v) || 0 }))}
+                        className="text-[12px] font-sans"
+                        title="Points"
+                      />
                     </div>
+                    <button type="button" className={iconButton} disabled={qIdx === 0} onClick={() => apply(editor.moveQuestion(data, idx, qIdx, -1))} title="Move up"><ArrowUp size={14} /></button>
+                    <button type="button" className={iconButton} disabled={qIdx === section.questions.length - 1} onClick={() => apply(editor.moveQuestion(data, idx, qIdx, 1))} title="Move down"><ArrowDown size={14} /></button>
+                    <button type="button" className={`${iconButton} hover:text-red-600`} onClick={() => apply(editor.deleteQuestion(data, idx, qIdx))} title="Delete question"><Trash2 size={14} /></button>
+                    {onRegenerateQuestion && <button type="button" className={regenButton} onClick={() => onRegenerateQuestion(idx, qIdx)} title="Regenerate question"><Sparkles size={14} /></button>}
                   </div>
-                  
-                  {q.parts && q.parts.length > 0 && (
-                    <div className="ml-10 mt-1">
-                      {/* Grid 4 columns for A/B/C/D if appropriate */}
-                      {q.parts.length === 4 && q.parts.every(p => /^[A-D]\./.test(p.label || "")) ? (
-                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
-                           {q.parts.map((part, pIdx) => (
-                              <div key={pIdx} className="flex gap-1.5">
-                                <span className="font-bold">{part.label}</span>
-                                <span>{part.content}</span>
-                              </div>
-                            ))}
-                        </div>
-                      ) : (
-                        <div className="grid grid-cols-1 gap-2">
-                          {q.parts.map((part, pIdx) => (
-                            <div key={pIdx} className="flex gap-2">
-                              {part.label && <span className="font-bold min-w-[20px]">{part.label}</span>}
-                              <span className="text-justify">{part.content}</span>
-                            </div>
-                          ))}
+
+                  <ImageAttachments images={q.images} onChange={(images) => apply(editor.updateQuestion(data, idx, qIdx, { images }))} />
+
+                  <div className="ml-10 mt-1 mb-2 flex flex-wrap items-center gap-2 font-sans text-[11px]">
+                    <select
+                      value={q.kind || ""}
+                      onChange={(e) => apply(editor.updateQuestion(data, idx, qIdx, { kind: (e.target.value || undefined) as QuestionKind | undefined }))}
+                      className="px-1.5 py-1 rounded border border-dashed border-blue-300 bg-white"
+                      title="Question kind"
+                    >
+                      <option value="">Untyped</option>
+                      {QUESTION_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+                    </select>
+                    {q.kind === "word_form" && (
+                      <div className="w-40"><EditableField value={q.baseWord || ""} onCommit={(v) => apply(editor.updateQuestion(data, idx, qIdx, { baseWord: v || undefined }))} placeholder="Base word" /></div>
+                    )}
+                    {q.kind === "sentence_transformation" && (
+                      <div className="flex-1 min-w-[12rem]"><EditableField value={q.sentenceStart || ""} onCommit={(v) => apply(editor.updateQuestion(data, idx, qIdx, { sentenceStart: v || undefined }))} placeholder="Start of the rewrite" /></div>
+                    )}
+                    {q.kind === "open_writing" && (
+                      <div className="w-20">
+                        <EditableField
+                          type="number"
+                          min="0"
+                          value={q.wordLimit ? String(q.wordLimit) : ""}
+                          onCommit={(v) => apply(editor.updateQuestion(data, idx, qIdx, { wordLimit: Number(v) || undefined }))}
+                          placeholder="Words"
+                        />
+                      </div>
+                    )}
+                    {q.kind === "matching" && (
+                      <div className="w-full"><EditableField multiline value={formatPartLines(q.matchOptions)} onCommit={(v) => apply(editor.updateQuestion(data, idx, qIdx, { matchOptions: parsePartLines(v) }))} placeholder={"Choices to match, one per line:\na. ...\nb. ..."} /></div>
+                    )}
+                  </div>
+
+                  <div className="ml-10 mt-1 space-y-1">
+                    {q.parts?.map((part, pIdx) => (
+                      <div key={pIdx} className="flex gap-1.5 items-center">
+                        <div className="w-14">
+                          <EditableField value={part.label || ""} onCommit={(v) => apply(editor.updatePart(data, idx, qIdx, pIdx, { label: v }))} className="font-bold" />
                         </div>
-                      )}
-                    </div>
-                  )}
+                        <EditableField value={part.content} onCommit={(v) => apply(editor.updatePart(data, idx, qIdx, pIdx, { content: v }))} />
+                        <button type="button" className={`${iconButton} hover:text-red-600`} onClick={() => apply(editor.removePart(data, idx, qIdx, pIdx))} title="Remove option"><Trash2 size={12} /></button>
+                      </div>
+                    ))}
+                    <button type="button" onClick={() => apply(editor.addPart(data, idx, qIdx))} className="text-[11px] font-sans font-semibold text-blue-600 hover:underline">+ Add option</button>
+                  </div>
                 </div>
               ))}
             </div>
+
+            <button type="button" onClick={() => apply(editor.addQuestion(data, idx))} className="mt-4 flex items-center gap-1 text-xs font-sans font-bold text-blue-600 hover:text-blue-800">
+              <Plus size={14} /> Add question
+            </button>
           </div>
         ))}
       </div>
 
-      {/* Footer Decoration */}
-      <div className="text-center mt-24 text-[12px] font-bold italic pt-8 border-t border-gray-100 uppercase tracking-[0.3em]">
-        ------ THE END ------
-      </div>
-      
-      {/* Page counter at bottom */}
-      <div className="absolute bottom-6 right-10 text-[10px] font-bold">
-        Mã đề 101 Page 1/1
-      </div>
+      <button type="button" onClick={() => apply(editor.addSection(data))} className="mt-10 w-full py-3 border-2 border-dashed border-blue-200 rounded-lg text-sm font-sans font-bold text-blue-600 hover:bg-blue-50 flex items-center justify-center gap-2">
+        <Plus size={16} /> Add section
+      </button>
+
+      {theEnd}
     </div>
   );
 };
 
-export default ExamViewer;
\ No newline at end of file
+export default ExamViewer;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { GraduationCap, RotateCcw } from 'lucide-react';
+import { GradeProfile, GradeProfileOverrides, StageOptions } from '../types';
+import { SCHOOL_STAGES, getGradeProfiles, getStageOptions } from '../services/gradeProfiles';
+import { CEFR_LEVELS } from '../services/questionBankService';
+import { QUESTION_KINDS } from '../services/questionKinds';
+import EditableField from './EditableField';
+
+interface GradeProfileSettingsProps {
+  overrides: GradeProfileOverrides;
+  onChange: (overrides: GradeProfileOverrides) => void;
+}
+
+const inputClass = "w-full px-2 py-1 border border-slate-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-xs";
+
+const list = (value: string, separator: string) => value.split(separator).map(v => v.trim()).filter(Boolean);
+
+/**
+ * School overrides of the built-in grade profiles. Only the changed fields are stored,
+ * so later updates to the defaults still reach the fields a school left alone.
+ */
+const GradeProfileSettings: React.FC<GradeProfileSettingsProps> = ({ overrides, onChange }) => {
+  const profiles = getGradeProfiles(overrides);
+  const [grade, setGrade] = useState('Grade 6');
+  const profile = profiles.find(p => p.grade === grade) || profiles[0];
+  const stageOptions = getStageOptions(profile.stage, overrides);
+
+  const updateGrade = (patch: Partial<GradeProfile>) =>
+    onChange({ ...overrides, grades: { ...overrides.grades, [profile.grade]: { ...overrides.grades[profile.grade], ...patch } } });
+
+  const updateStage = (patch: Partial<StageOptions>) =>
+    onChange({ ...overrides, stages: { ...overrides.stages, [profile.stage]: { ...overrides.stages[profile.stage], ...patch } } });
+
+  const resetGrade = () => {
+    const { [profile.grade]: _removed, ...grades } = overrides.grades;
+    onChange({ ...overrides, grades });
+  };
+
+  const resetStage = () => {
+    const { [profile.stage]: _removed, ...stages } = overrides.stages;
+    onChange({ ...overrides, stages });
+  };
+
+  const rangeInput = (field: 'vocabularySize' | 'passageWords' | 'sentenceWords', label: string) => (
+    <label className="block">
+      <span className="text-slate-500">{label}</span>
+      <div className="flex items-center gap-1">
+        {[0, 1].map(i => (
+          <input
+            key={i}
+            type="number"
+            min={0}
+            value={profile[field][i]}
+            onChange={(e) => {
+              const next: [number, number] = [...profile[field]];
+              next[i] = Number(e.target.value) || 0;
+              updateGrade({ [field]: next });
+            }}
+            className={inputClass}
+          />
+        ))}
+      </div>
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+        <GraduationCap className="w-4 h-4 text-slate-400" /> Grade profiles
+      </label>
+      <p className="text-xs text-slate-500">What each grade's exam may use. Shown in the exam form and sent to the AI as the difficulty rules.</p>
+
+      <div className="flex items-center gap-2">
+        <select value={profile.grade} onChange={(e) => setGrade(e.target.value)} className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm outline-none bg-white">
+          {SCHOOL_STAGES.map(stage => (
+            <optgroup key={stage} label={stage}>
+              {profiles.filter(p => p.stage === stage).map(p => <option key={p.grade} value={p.grade}>{p.grade}</option>)}
+            </optgroup>
+          ))}
+        </select>
+        <button onClick={resetGrade} disabled={!overrides.grades[profile.grade]} className="flex items-center gap-1 px-2 py-2 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition disabled:opacity-40" title="Back to the built-in profile">
+          <RotateCcw size={12} /> Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <label className="block">
+          <span className="text-slate-500">CEFR</span>
+          <select value={profile.cefr} onChange={(e) => updateGrade({ cefr: e.target.value })} className={`${inputClass} bg-white`}>
+            {CEFR_LEVELS.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Difficulty</span>
+          <select value={profile.stars} onChange={(e) => updateGrade({ stars: Number(e.target.value) })} className={`${inputClass} bg-white`}>
+            {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{'★'.repeat(n)}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Badge</span>
+          <input value={profile.label} onChange={(e) => updateGrade({ label: e.target.value })} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="text-slate-500">Summary</span>
+          <input value={profile.summary} onChange={(e) => updateGrade({ summary: e.target.value })} className={inputClass} />
+        </label>
+        {rangeInput('vocabularySize', 'Vocabulary (words)')}
+        {rangeInput('passageWords', 'Passage length (words)')}
+        {rangeInput('sentenceWords', 'Sentence length (words)')}
+      </div>
+
+      <div className="text-xs">
+        <span className="text-slate-500">Grammar, one structure per line</span>
+        <EditableField multiline value={profile.grammar.join('\n')} onCommit={(v) => updateGrade({ grammar: list(v, '\n') })} />
+      </div>
+
+      <div className="text-xs">
+        <span className="text-slate-500">Question types</span>
+        <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 mt-1">
+          {QUESTION_KINDS.map(kind => (
+            <label key={kind.id} className="flex items-center gap-1.5 text-slate-700">
+              <input
+                type="checkbox"
+                checked={profile.questionKinds.includes(kind.id)}
+                onChange={(e) => updateGrade({
+                  questionKinds: e.target.checked
+                    ? QUESTION_KINDS.map(k => k.id).filter(id => id === kind.id || profile.questionKinds.includes(id))
+                    : profile.questionKinds.filter(id => id !== kind.id),
+                })}
+              />
+              {kind.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="text-xs space-y-1">
+        <div className="flex justify-between">
+          <span className="text-slate-500">{profile.stage}: durations and topics, comma-separated</span>
+          {overrides.stages[profile.stage] && <button onClick={resetStage} className="text-blue-600 hover:text-blue-700 font-medium">Reset</button>}
+        </div>
+        <EditableField value={stageOptions.times.join(', ')} onCommit={(v) => updateStage({ times: list(v, ',') })} placeholder="Durations" />
+        <EditableField value={stageOptions.trends.join(', ')} onCommit={(v) => updateStage({ trends: list(v, ',') })} placeholder="Topics" />
+      </div>
+    </div>
+  );
+};
+
+export default GradeProfileSettings;
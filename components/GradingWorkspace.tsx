@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ClipboardCheck, ArrowLeft, UserPlus, Trash2, FileDown, FileSpreadsheet, RefreshCw, AlertTriangle } from 'lucide-react';
+import { ExamData, GradingSession, StudentResult } from '../types';
+import EditableField from './EditableField';
+import ItemAnalysisPanel from './ItemAnalysisPanel';
+import { getSavedExam, updateSavedGrading } from '../services/libraryService';
+import {
+  createGradingSession, deriveGradingKeys, getGradingKeys, keysOutOfDate, choiceQuestionIds, writtenQuestions, parseChoices, formatChoices,
+  parseRoster, createStudent, scoreStudent, buildGradebookRows,
+} from '../services/gradingService';
+import { buildCsv, buildXlsx } from '../services/spreadsheetExport';
+import { downloadBlob } from '../services/download';
+
+interface GradingWorkspaceProps {
+  examId: string;
+  exam: ExamData;
+  // Versions currently shown in the result view, used when grading starts
+  versionCount: number;
+  versionSeed: number;
+  onBack: () => void;
+  onShowQuestion?: (questionId: string) => void;
+}
+
+const th = "border border-slate-300 bg-slate-100 px-2 py-1 text-center font-semibold whitespace-nowrap";
+const td = "border border-slate-200 px-2 py-1 text-center";
+
+const GradingWorkspace: React.FC<GradingWorkspaceProps> = ({ examId, exam, versionCount, versionSeed, onBack, onShowQuestion }) => {
+  const [session, setSession] = useState<GradingSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rosterText, setRosterText] = useState('');
+  const [tab, setTab] = useState<'students' | 'analysis'>('students');
+
+  useEffect(() => {
+    getSavedExam(examId)
+      .then(saved => setSession(saved?.grading || createGradingSession(exam, versionCount, versionSeed, saved?.printed)))
+      .catch((err: any) => setError(err.message || "Could not load the grading data."));
+  }, [examId]);
+
+  // Persist every change to the saved exam. A change still waiting when the workspace
+  // closes (a score committed on blur just before Back) is saved on the way out.
+  const pendingSave = useRef<GradingSession | null>(null);
+  const savePending = () => {
+    const pending = pendingSave.current;
+    pendingSave.current = null;
+    if (pending) updateSavedGrading(examId, pending).catch((err: any) => setError(err.message || "Saving the grades failed."));
+  };
+
+  useEffect(() => {
+    if (!session) return;
+    pendingSave.current = session;
+    const timer = setTimeout(savePending, 600);
+    return () => clearTimeout(timer);
+  }, [session, examId]);
+
+  useEffect(() => () => savePending(), [examId]);
+
+  const keys = useMemo(() => (session ? getGradingKeys(exam, session) : []), [exam, session?.keys, session?.versionCount, session?.versionSeed]);
+  const isOutOfDate = useMemo(() => !!session && keysOutOfDate(exam, session), [exam, session?.keys]);
+  // Question slots are the same on every version, so the original decides the columns
+  const written = useMemo(() => (keys[0] ? writtenQuestions(keys[0]) : []), [keys]);
+
+  if (error && !session) return <div className="max-w-5xl mx-auto p-4 bg-red-50 border-l-4 border-red-500 text-red-700 rounded">{error}</div>;
+  if (!session) {
+    return (
+      <div className="flex justify-center py-20 text-slate-400">
+        <RefreshCw className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<GradingSession>) => setSession({ ...session, ...changes, updatedAt: Date.now() });
+
+  const updateStudent = (id: string, changes: Partial<StudentResult>) =>
+    update({ students: session.students.map(s => (s.id === id ? { ...s, ...changes } : s)) });
+
+  const keyFor = (student: StudentResult) => keys.find(k => k.code === student.versionCode);
+
+  const handleAddRoster = () => {
+    const parsed = parseRoster(rosterText, keys);
+    if (parsed.length === 0) return;
+    update({ students: [...session.students, ...parsed] });
+    setRosterText('');
+  };
+
+  // Changing the versions takes new keys from the exam as it is now
+  const handleVersions = (count: number, seed: number) => {
+    const nextKeys = deriveGradingKeys(exam, count, seed);
+    const codes = nextKeys.map(k => k.code);
+    // Students keep their mã đề when it still exists
+    update({
+      versionCount: count,
+      versionSeed: seed,
+      keys: nextKeys,
+      students: session.students.map(s => (codes.includes(s.versionCode) ? s : { ...s, versionCode: codes[0] })),
+    });
+  };
+
+  const handleDelete = (student: StudentResult) => {
+    if (student.name && !confirm(`Remove ${student.name} from this class?`)) return;
+    update({ students: session.students.filter(s => s.id !== student.id) });
+  };
+
+  const fileName = `Bang_diem_${(exam.examTitle || 'exam').replace(/[^\w]+/g, '_')}`;
+
+  const handleExportCsv = () => downloadBlob(buildCsv(buildGradebookRows(exam, session).summary), `${fileName}.csv`);
+
+  const handleExportXlsx = async () => {
+    const { summary, detail } = buildGradebookRows(exam, session);
+    try {
+      downloadBlob(await buildXlsx([{ name: 'Bảng điểm', rows: summary }, { name: 'Chi tiết', rows: detail }]), `${fileName}.xlsx`);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export the spreadsheet.");
+    }
+  };
+
+  const scores = session.students.map(s => scoreStudent(s, keyFor(s)));
+  const average = scores.length ? Math.round((scores.reduce((acc, s) => acc + s.total, 0) / scores.length) * 100) / 100 : 0;
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <button onClick={onBack} className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition" title="Back to exam">
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+              <ClipboardCheck className="w-6 h-6 text-indigo-600" /> Chấm bài
+            </h2>
+            <p className="text-sm text-slate-500">{exam.examTitle} — {session.students.length} học sinh, điểm trung bình {average}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <label className="text-slate-600 font-medium">Số mã đề</label>
+          <select
+            value={session.versionCount}
+            onChange={(e) => handleVersions(Number(e.target.value), session.versionSeed)}
+            className="px-2 py-1 rounded-lg border border-slate-300 bg-white"
+          >
+            <option value={0}>Original</option>
+            {[2, 3, 4, 5, 6, 7, 8].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          {session.versionCount > 0 && (
+            <>
+              <label className="text-slate-600 font-medium" title="Must match the shuffle used when printing">Shuffle #</label>
+              <input
+                type="number"
+                min={1}
+                value={session.versionSeed}
+                onChange={(e) => handleVersions(session.versionCount, Number(e.target.value) || 1)}
+                className="w-16 px-2 py-1 rounded-lg border border-slate-300"
+              />
+            </>
+          )}
+          <button onClick={handleExportCsv} className="flex items-center gap-1 px-3 py-1.5 font-bold text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition">
+            <FileDown size={14} /> CSV
+          </button>
+          <button onClick={handleExportXlsx} className="flex items-center gap-1 px-3 py-1.5 font-bold text-white bg-green-600 rounded-lg hover:bg-green-700 transition">
+            <FileSpreadsheet size={14} /> XLSX
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="p-3 bg-red-50 border-l-4 border-red-500 text-red-700 rounded text-sm">{error}</div>}
+
+      {isOutOfDate && (
+        <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg text-sm">
+          <span className="flex items-center gap-2">
+            <AlertTriangle size={16} /> The exam was edited after these answer keys were taken. Marks still use the keys of the papers students sat.
+          </span>
+          <button onClick={() => handleVersions(session.versionCount, session.versionSeed)} className="px-3 py-1 font-semibold bg-white border border-amber-300 rounded-lg hover:bg-amber-100 transition">
+            Grade with the edited exam
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {([['students', 'Học sinh & điểm'], ['analysis', 'Phân tích câu hỏi']] as const).map(([id, label]) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`px-4 py-1.5 rounded-full text-sm font-semibold border transition ${tab === id ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-300 hover:border-slate-400'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'analysis' ? (
+        <ItemAnalysisPanel exam={exam} session={session} onShowQuestion={onShowQuestion} />
+      ) : (
+        <>
+          <div className="bg-white rounded-xl shadow border border-slate-100 p-4 space-y-3">
+            <p className="text-sm text-slate-600">
+              Paste the class roster from Excel, one student per line: <span className="font-mono text-xs bg-slate-100 px-1 rounded">Mã HS ⇥ Họ và tên ⇥ Mã đề ⇥ Đáp án</span>.
+              Mã đề and answers are optional; answers can be a string like <span className="font-mono text-xs">ABCD-BA</span> (use - for blank) or one letter per cell.
+            </p>
+            <textarea
+              value={rosterText}
+              onChange={(e) => setRosterText(e.target.value)}
+              rows={4}
+              placeholder={"HS001\tNguyễn Văn An\t101\tABCDABCD\nHS002\tTrần Thị Bình\t102\tBCDA-BCA"}
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 font-mono text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => update({ students: [...session.students, createStudent(keys[0]?.code || '')] })}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm font-bold text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition"
+              >
+                <UserPlus size={14} /> Add one student
+              </button>
+              <button onClick={handleAddRoster} disabled={!rosterText.trim()} className="px-4 py-1.5 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition disabled:opacity-50">
+                Add pasted students
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow border border-slate-100 overflow-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr>
+                  <th className={th}>STT</th>
+                  <th className={th}>Mã HS</th>
+                  <th className={th}>Họ và tên</th>
+                  <th className={th}>Mã đề</th>
+                  <th className={th}>Trắc nghiệm (đáp án đã chọn)</th>
+                  {written.map(q => <th key={q.id} className={th} title={`Max ${q.points} pts`}>{q.id}</th>)}
+                  <th className={th}>TN</th>
+                  <th className={th}>TL</th>
+                  <th className={th}>Tổng</th>
+                  <th className={th}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {session.students.length === 0 && (
+                  <tr>
+                    <td colSpan={9 + written.length} className="py-10 text-center text-slate-400">No students yet. Paste a roster above.</td>
+                  </tr>
+                )}
+                {session.students.map((student, i) => {
+                  const key = keyFor(student);
+                  const ids = key ? choiceQuestionIds(key) : [];
+                  const score = scores[i];
+                  return (
+                    <tr key={student.id} className="hover:bg-slate-50">
+                      <td className={td}>{i + 1}</td>
+                      <td className={`${td} w-28`}>
+                        <EditableField value={student.studentCode} onCommit={(v) => updateStudent(student.id, { studentCode: v })} />
+                      </td>
+                      <td className={`${td} min-w-[12rem]`}>
+                        <EditableField value={student.name} onCommit={(v) => updateStudent(student.id, { name: v })} />
+                      </td>
+                      <td className={td}>
+                        <select
+                          value={student.versionCode}
+                          onChange={(e) => updateStudent(student.id, { versionCode: e.target.value })}
+                          className="px-1 py-1 rounded border border-slate-300 bg-white"
+                        >
+                          {keys.map(k => <option key={k.code} value={k.code}>{k.code}</option>)}
+                        </select>
+                      </td>
+                      <td className={`${td} min-w-[14rem]`}>
+                        <EditableField
+                          value={formatChoices(student.choices, ids)}
+                          onCommit={(v) => updateStudent(student.id, { choices: parseChoices(v, ids) })}
+                          placeholder={`${ids.length} letters`}
+                          className="font-mono tracking-widest"
+                        />
+                        {ids.length > 0 && <div className="text-[11px] text-slate-500 mt-0.5">{score.correct}/{ids.length} correct</div>}
+                      </td>
+                      {written.map(q => (
+                        <td key={q.id} className={`${td} w-20`}>
+                          <EditableField
+                            value={student.manualScores[q.id] === undefined ? '' : String(student.manualScores[q.id])}
+                            onCommit={(v) => {
+                              const manualScores = { ...student.manualScores };
+                              const points = parseFloat(v.replace(',', '.'));
+                              if (Number.isNaN(points)) delete manualScores[q.id];
+                              else manualScores[q.id] = points;
+                              updateStudent(student.id, { manualScores });
+                            }}
+                            className="text-center"
+                          />
+                        </td>
+                      ))}
+                      <td className={td}>{score.choiceScore}</td>
+                      <td className={td}>{score.writtenScore}</td>
+                      <td className={`${td} font-bold text-indigo-700`}>{score.total}</td>
+                      <td className={td}>
+                        <button onClick={() => handleDelete(student)} className="p-1 text-slate-400 hover:text-red-600 transition" title="Remove student">
+                          <Trash2 size={14} />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GradingWorkspace;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ImagePlus, Smile, X } from 'lucide-react';
+import { ExamImage } from '../types';
+import { imageDisplaySize, readImageFiles, renderClipArt } from '../services/imageService';
+import { CLIP_ART_TOPICS } from '../services/clipArt';
+
+interface ImageAttachmentsProps {
+  images?: ExamImage[];
+  /** Makes the pictures editable: remove, upload and insert clip art. */
+  onChange?: (images: ExamImage[] | undefined) => void;
+}
+
+/**
+ * Pictures attached to a question or section, in rows of three under the text. Printed at
+ * the same size in the preview and in the Word export.
+ */
+const ImageAttachments: React.FC<ImageAttachmentsProps> = ({ images = [], onChange }) => {
+  const [showClipArt, setShowClipArt] = useState(false);
+  const [topicId, setTopicId] = useState(CLIP_ART_TOPICS[0].id);
+  const [error, setError] = useState<string | null>(null);
+
+  const add = (added: ExamImage[]) => {
+    if (added.length > 0) onChange!([...images, ...added]);
+  };
+
+  const remove = (id: string) => {
+    const rest = images.filter(img => img.id !== id);
+    onChange!(rest.length > 0 ? rest : undefined);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files) return;
+    try {
+      add(await readImageFiles(files));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Could not read the image.");
+    }
+    e.target.value = '';
+  };
+
+  if (!onChange && images.length === 0) return null;
+
+  const topic = CLIP_ART_TOPICS.find(t => t.id === topicId) || CLIP_ART_TOPICS[0];
+
+  return (
+    <div className="ml-10 mt-2 mb-1">
+      {images.length > 0 && (
+        <div className="grid grid-cols-3 items-end gap-4 max-w-[540px]">
+          {images.map((img, i) => (
+            <figure key={img.id} className="relative flex flex-col items-center">
+              <img src={img.dataUrl} alt={img.alt || ""} style={imageDisplaySize(img)} className="object-contain" />
+              {images.length > 1 && <figcaption className="text-[11px] font-bold mt-0.5">{i + 1}</figcaption>}
+              {onChange && (
+                <button type="button" onClick={() => remove(img.id)} className="absolute -top-2 -right-2 p-0.5 rounded-full bg-white border border-slate-300 text-slate-500 hover:text-red-600 no-print" title="Remove picture">
+                  <X size={12} />
+                </button>
+              )}
+            </figure>
+          ))}
+        </div>
+      )}
+
+      {onChange && (
+        <div className="mt-1 font-sans text-[11px] no-print">
+          <div className="flex items-center gap-2 text-slate-500">
+            <label className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-slate-100 hover:text-slate-700 cursor-pointer transition">
+              <ImagePlus size={12} /> Picture
+              <input type="file" accept="image/*" multiple className="hidden" onChange={handleUpload} />
+            </label>
+            <button type="button" onClick={() => setShowClipArt(!showClipArt)} className={`flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-slate-100 hover:text-slate-700 transition ${showClipArt ? 'bg-slate-100 text-slate-700' : ''}`}>
+              <Smile size={12} /> Clip art
+            </button>
+            <span className="text-slate-400">or drop images here</span>
+          </div>
+          {error && <p className="text-red-600 mt-1">{error}</p>}
+
+          {showClipArt && (
+            <div className="mt-2 p-2 rounded-lg border border-slate-200 bg-slate-50 max-w-md">
+              <div className="flex flex-wrap gap-1 mb-2">
+                {CLIP_ART_TOPICS.map(t => (
+                  <button key={t.id} type="button" onClick={() => setTopicId(t.id)} className={`px-2 py-0.5 rounded-full border transition ${t.id === topic.id ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-300'}`}>
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-6 gap-1">
+                {topic.items.map(item => (
+                  <button key={item.label + item.glyph} type="button" onClick={() => add([renderClipArt(item.glyph, item.label)])} className="flex flex-col items-center p-1 rounded bg-white border border-transparent hover:border-blue-300 transition" title={item.label}>
+                    <span className="text-2xl leading-none">{item.glyph}</span>
+                    <span className="text-[9px] text-slate-500 truncate w-full text-center">{item.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageAttachments;
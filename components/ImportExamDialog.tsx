@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileUp, X, RefreshCw, Sparkles, AlertTriangle, CheckCircle } from 'lucide-react';
+import { ExamData } from '../types';
+import { extractTextFromFile } from '../services/documentText';
+import { parseExamText, ImportResult } from '../services/examImporter';
+import { importExamWithAI } from '../services/geminiService';
+import { errorMessage, isAuthError, isCancelled } from '../services/aiErrors';
+
+interface ImportExamDialogProps {
+  onImport: (exam: ExamData) => void;
+  onClose: () => void;
+  /** Called when the AI rejected the key, so Settings can be opened. */
+  onAuthError?: () => void;
+}
+
+const ImportExamDialog: React.FC<ImportExamDialogProps> = ({ onImport, onClose, onAuthError }) => {
+  const [fileName, setFileName] = useState('');
+  const [documentText, setDocumentText] = useState('');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isWorking = status !== null;
+  // Closing the dialog cancels an AI import still running
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setError(null);
+    setResult(null);
+    setStatus("Reading document...");
+    try {
+      const text = await extractTextFromFile(file);
+      setDocumentText(text);
+      setResult(parseExamText(text));
+    } catch (err: any) {
+      setError(err.message || "Could not read the file.");
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const handleAI = async () => {
+    setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const exam = await importExamWithAI(documentText, setStatus, controller.signal);
+      if (!controller.signal.aborted) onImport(exam);
+    } catch (err: any) {
+      if (controller.signal.aborted || isCancelled(err)) return;
+      setError(errorMessage(err, "AI import failed."));
+      if (isAuthError(err)) onAuthError?.();
+    } finally {
+      abortRef.current = null;
+      setStatus(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4 no-print">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+          <div className="flex items-center gap-2 text-slate-800">
+            <FileUp className="w-5 h-5 text-blue-600" />
+            <h3 className="font-bold text-lg">Import an existing exam</h3>
+          </div>
+          <button onClick={onClose} title={isWorking ? 'Cancel' : 'Close'} className="text-slate-400 hover:text-slate-600 transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm">
+          <label className={`flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed rounded-xl cursor-pointer transition ${isWorking ? 'opacity-60 cursor-wait' : 'border-blue-200 hover:border-blue-400 hover:bg-blue-50/50'}`}>
+            <FileUp className="w-8 h-8 text-blue-500" />
+            <span className="font-semibold text-slate-700">{fileName || 'Choose a .docx or .pdf exam'}</span>
+            <span className="text-xs text-slate-500">Sections, "Question N." / "Câu N:" items, A–D options and the answer key are detected</span>
+            <input type="file" accept=".docx,.pdf" className="hidden" disabled={isWorking} onChange={handleFile} />
+          </label>
+
+          {status && (
+            <div className="flex items-center gap-2 text-blue-700">
+              <RefreshCw size={16} className="animate-spin" /> {status}
+            </div>
+          )}
+
+          {error && <div className="p-3 bg-red-50 border-l-4 border-red-500 text-red-700 rounded whitespace-pre-line">{error}</div>}
+
+          {result && !isWorking && (
+            <div className="space-y-2">
+              <div className={`flex items-center gap-2 font-semibold ${result.data ? 'text-emerald-700' : 'text-amber-700'}`}>
+                {result.data ? <CheckCircle size={16} /> : <AlertTriangle size={16} />}
+                {result.stats.questions} question(s) in {result.stats.sections} section(s), {result.stats.choiceQuestions} multiple choice, {result.stats.answers} answer(s)
+              </div>
+              {result.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-amber-700 space-y-1 whitespace-pre-line">
+                  {result.warnings.map(w => <li key={w}>{w}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t border-gray-100 flex justify-between gap-2">
+          <button
+            onClick={handleAI}
+            disabled={isWorking || !documentText}
+            className="flex items-center gap-2 px-4 py-2 text-purple-700 bg-purple-50 hover:bg-purple-100 font-semibold rounded-lg transition disabled:opacity-50"
+            title="Use Gemini when the layout is too messy for the parser"
+          >
+            <Sparkles size={16} /> Parse with AI
+          </button>
+          <button
+            onClick={() => result?.data && onImport(result.data)}
+            disabled={isWorking || !result?.data}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg transition shadow-sm disabled:opacity-50"
+          >
+            Open exam
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportExamDialog;
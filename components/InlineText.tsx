@@ -0,0 +1,17 @@
+import React from 'react';
+import { parseInline } from '../services/inlineMarkup';
+
+/**
+ * Renders question text with its inline markup: underlined, bold and italic runs and blanks.
+ */
+const InlineText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {parseInline(text).map((run, i) => {
+      const className = [run.underline && "underline underline-offset-2", run.bold && "font-bold", run.italic && "italic"].filter(Boolean).join(" ");
+      if (run.blank) return <span key={i} className={`inline-block w-16 border-b border-black align-baseline ${className}`}>&nbsp;</span>;
+      return className ? <span key={i} className={className}>{run.text}</span> : <React.Fragment key={i}>{run.text}</React.Fragment>;
+    })}
+  </>
+);
+
+export default InlineText;
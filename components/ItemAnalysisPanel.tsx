@@ -0,0 +1,100 @@
+import React from 'react';
+import { BarChart3, AlertTriangle, ExternalLink } from 'lucide-react';
+import { ExamData, GradingSession } from '../types';
+import { analyzeItems, GROUP_SHARE } from '../services/itemAnalysisService';
+
+interface ItemAnalysisPanelProps {
+  exam: ExamData;
+  session: GradingSession;
+  onShowQuestion?: (questionId: string) => void;
+}
+
+const th = "border border-slate-300 bg-slate-100 px-2 py-1 text-center font-semibold whitespace-nowrap";
+const td = "border border-slate-200 px-2 py-1 text-center";
+
+const formatStat = (value: number | null) => (value === null ? "—" : value.toFixed(2));
+
+const ItemAnalysisPanel: React.FC<ItemAnalysisPanelProps> = ({ exam, session, onShowQuestion }) => {
+  const analysis = analyzeItems(exam, session);
+
+  if (analysis.studentCount === 0) {
+    return <div className="bg-white rounded-xl shadow border border-slate-100 py-16 text-center text-slate-400">Enter student responses to see the item analysis.</div>;
+  }
+
+  const flagged = analysis.items.filter(i => i.flags.length > 0).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow border border-slate-100 overflow-hidden">
+      <div className="bg-indigo-50 p-4 border-b border-indigo-100 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-bold text-indigo-800 flex items-center gap-2">
+          <BarChart3 className="w-5 h-5" /> Phân tích câu hỏi
+        </h3>
+        <div className="flex flex-wrap gap-4 text-sm text-slate-600">
+          <span>{analysis.studentCount} students</span>
+          <span>Top/bottom {Math.round(GROUP_SHARE * 100)}%: {analysis.groupSize} each</span>
+          <span className="font-semibold text-indigo-700" title="Reliability over the multiple choice items">KR-20: {formatStat(analysis.kr20)}</span>
+          {flagged > 0 && <span className="font-semibold text-amber-700">{flagged} item(s) to review</span>}
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-[750px]">
+        <table className="w-full border-collapse text-xs">
+          <thead className="sticky top-0">
+            <tr>
+              <th className={th}>Câu</th>
+              <th className={th} title="Share of students who got it right">p</th>
+              <th className={th} title="p(top group) − p(bottom group)">D</th>
+              <th className={th}>A</th>
+              <th className={th}>B</th>
+              <th className={th}>C</th>
+              <th className={th}>D</th>
+              <th className={th}>Bỏ trống</th>
+              <th className={th}>Flags</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.items.map(item => (
+              <tr key={item.questionId} className={item.flags.length ? 'bg-amber-50/60' : ''}>
+                <td className={`${td} text-left whitespace-nowrap`}>
+                  {onShowQuestion ? (
+                    <button onClick={() => onShowQuestion(item.questionId)} className="flex items-center gap-1 font-semibold text-blue-700 hover:underline" title={item.text}>
+                      {item.questionId} <ExternalLink size={11} />
+                    </button>
+                  ) : (
+                    <span className="font-semibold" title={item.text}>{item.questionId}</span>
+                  )}
+                </td>
+                <td className={td}>{formatStat(item.pValue)}</td>
+                <td className={`${td} ${item.discrimination !== null && item.discrimination < 0 ? 'text-red-600 font-bold' : ''}`}>{formatStat(item.discrimination)}</td>
+                {item.isChoice ? item.distractors.map(d => (
+                  <td
+                    key={d.letter}
+                    title={d.content}
+                    className={`${td} ${d.isKey ? 'bg-emerald-100 font-bold text-emerald-800' : ''} ${d.unused ? 'text-amber-700 italic' : ''}`}
+                  >
+                    {d.count}{d.unused && ' ⚠'}
+                  </td>
+                )) : (
+                  <td colSpan={4} className={`${td} text-slate-400 italic`}>Written item · max {item.maxPoints} pts</td>
+                )}
+                <td className={td}>{item.isChoice ? item.blanks : '—'}</td>
+                <td className={`${td} text-left`}>
+                  {item.flags.map(flag => (
+                    <span key={flag} className="inline-flex items-center gap-1 mr-1 mb-0.5 px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 whitespace-nowrap">
+                      <AlertTriangle size={10} /> {flag}
+                    </span>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="px-4 py-2 text-[11px] text-slate-500 border-t border-slate-100">
+        Green cell = correct option. ⚠ = distractor nobody chose. Items shuffled across mã đề are mapped back to the original paper.
+      </p>
+    </div>
+  );
+};
+
+export default ItemAnalysisPanel;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Share2, X, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { ExamData } from '../types';
+import { exportToLms, LmsFormat, LMS_FORMATS } from '../services/lmsExport';
+import { downloadBlob } from '../services/download';
+
+interface LmsExportDialogProps {
+  data: ExamData;
+  onClose: () => void;
+}
+
+const FORMAT_HINTS: Record<LmsFormat, string> = {
+  moodle: "Question bank → Import → Moodle XML format",
+  gift: "Plain text, easy to edit; points are not kept",
+  qti: "Zip package for Canvas, Blackboard, Sakai and other QTI importers",
+};
+
+const LmsExportDialog: React.FC<LmsExportDialogProps> = ({ data, onClose }) => {
+  const [busy, setBusy] = useState<LmsFormat | null>(null);
+  const [done, setDone] = useState<{ format: LmsFormat; warnings: string[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: LmsFormat) => {
+    setBusy(format);
+    setError(null);
+    try {
+      const result = await exportToLms(data, format);
+      downloadBlob(result.blob, `English_Exam_${format}_${Date.now()}.${result.extension}`);
+      setDone({ format, warnings: result.warnings });
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "Export failed.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4 no-print">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+          <div className="flex items-center gap-2 text-slate-800">
+            <Share2 className="w-5 h-5 text-blue-600" />
+            <h3 className="font-bold text-lg">Export to LMS</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 text-sm">
+          {LMS_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format.id)}
+              disabled={busy !== null}
+              className="w-full flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-200 hover:border-blue-400 hover:bg-blue-50/50 transition text-left disabled:opacity-60"
+            >
+              <div>
+                <div className="font-bold text-slate-800">{format.label} <span className="font-normal text-slate-400">.{format.extension}</span></div>
+                <div className="text-xs text-slate-500">{FORMAT_HINTS[format.id]}</div>
+              </div>
+              {busy === format.id && <RefreshCw size={16} className="animate-spin text-blue-600" />}
+            </button>
+          ))}
+
+          {error && <div className="p-3 bg-red-50 border-l-4 border-red-500 text-red-700 rounded">{error}</div>}
+
+          {done && (
+            <div className="space-y-2 pt-2">
+              <div className={`flex items-center gap-2 font-semibold ${done.warnings.length ? 'text-amber-700' : 'text-emerald-700'}`}>
+                {done.warnings.length ? <AlertTriangle size={16} /> : <CheckCircle size={16} />}
+                {LMS_FORMATS.find(f => f.id === done.format)?.label} downloaded
+                {done.warnings.length ? ` with ${done.warnings.length} warning(s)` : ' with no conversion issues'}
+              </div>
+              {done.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-amber-700 space-y-1 max-h-60 overflow-y-auto">
+                  {done.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LmsExportDialog;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Grid3x3, ListChecks, FileDown } from 'lucide-react';
+import { ExamData } from '../types';
+import { buildExamMatrix, buildSpecification } from '../services/matrixService';
+
+interface MatrixViewerProps {
+  data: ExamData;
+  onExport?: () => void;
+  className?: string;
+}
+
+const th = "border border-slate-300 bg-slate-100 px-2 py-1 text-center font-semibold";
+const td = "border border-slate-200 px-2 py-1 text-center";
+
+const MatrixViewer: React.FC<MatrixViewerProps> = ({ data, onExport, className }) => {
+  const matrix = buildExamMatrix(data);
+  const spec = buildSpecification(data);
+
+  return (
+    <div className={`bg-white shadow-md rounded-lg overflow-hidden border border-gray-200 ${className}`}>
+      <div className="bg-blue-50 p-4 border-b border-blue-100 flex items-center justify-between">
+        <h3 className="font-bold text-blue-800 flex items-center gap-2">
+          <Grid3x3 className="w-5 h-5" /> Ma trận đề
+        </h3>
+        {onExport && (
+          <button onClick={onExport} className="flex items-center gap-1 px-3 py-1 text-xs font-bold text-blue-700 bg-white border border-blue-200 rounded-lg hover:bg-blue-100 transition">
+            <FileDown size={14} /> Export .docx
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 overflow-auto max-h-[750px] space-y-8 text-xs">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr>
+              <th rowSpan={2} className={th}>Kỹ năng</th>
+              {matrix.levels.map(level => <th key={level} colSpan={2} className={th}>{level}</th>)}
+              <th colSpan={3} className={th}>Tổng</th>
+            </tr>
+            <tr>
+              {matrix.levels.map(level => (
+                <React.Fragment key={level}>
+                  <th className={th}>Câu</th>
+                  <th className={th}>Điểm</th>
+                </React.Fragment>
+              ))}
+              <th className={th}>Câu</th>
+              <th className={th}>Điểm</th>
+              <th className={th}>%</th>
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.rows.map(row => (
+              <tr key={row.skill}>
+                <td className={`${td} text-left font-medium`}>{row.skill}</td>
+                {matrix.levels.map(level => (
+                  <React.Fragment key={level}>
+                    <td className={td}>{row.cells[level]?.count || ""}</td>
+                    <td className={td}>{row.cells[level]?.points || ""}</td>
+                  </React.Fragment>
+                ))}
+                <td className={`${td} font-bold`}>{row.total.count}</td>
+                <td className={`${td} font-bold`}>{row.total.points}</td>
+                <td className={`${td} font-bold`}>{row.percent}%</td>
+              </tr>
+            ))}
+            <tr className="bg-slate-50 font-bold">
+              <td className={`${td} text-left`}>Tổng</td>
+              {matrix.levels.map(level => (
+                <React.Fragment key={level}>
+                  <td className={td}>{matrix.totals[level].count}</td>
+                  <td className={td}>{matrix.totals[level].points}</td>
+                </React.Fragment>
+              ))}
+              <td className={td}>{matrix.grandTotal.count}</td>
+              <td className={td}>{matrix.grandTotal.points}</td>
+              <td className={td}>100%</td>
+            </tr>
+            <tr className="bg-slate-50 font-bold">
+              <td className={`${td} text-left`}>Tỉ lệ %</td>
+              {matrix.levels.map(level => <td key={level} colSpan={2} className={td}>{matrix.levelPercents[level]}%</td>)}
+              <td colSpan={3} className={td}>100%</td>
+            </tr>
+          </tbody>
+        </table>
+
+        <div>
+          <h4 className="font-bold text-blue-800 flex items-center gap-2 mb-3 text-sm">
+            <ListChecks className="w-4 h-4" /> Bản đặc tả
+          </h4>
+          <table className="w-full border-collapse">
+            <thead>
+              <tr>
+                <th className={th}>Kỹ năng</th>
+                <th className={th}>Yêu cầu cần đạt</th>
+                {spec.levels.map(level => <th key={level} className={th}>{level}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {spec.rows.map((row, i) => (
+                <tr key={i}>
+                  <td className={`${td} text-left font-medium`}>{row.skill}</td>
+                  <td className={`${td} text-left`}>{row.objective}</td>
+                  {spec.levels.map(level => <td key={level} className={td}>{row.questionIds[level]?.join(", ") || ""}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatrixViewer;
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { Eye, History, MessageSquareText, RotateCcw, Save } from 'lucide-react';
+import { ExamConfig, PromptTemplateId, PromptTemplateVersion } from '../types';
+import {
+  PROMPT_TEMPLATES,
+  getPromptTemplate,
+  getTemplateDef,
+  getTemplateHistory,
+  missingProfileVariables,
+  restoreDefaultTemplate,
+  savePromptTemplate,
+  unknownVariables,
+} from '../services/promptTemplates';
+import { previewPrompt } from '../services/geminiService';
+
+interface PromptTemplateSettingsProps {
+  /** Current exam form values, used for the preview. */
+  config: ExamConfig | null;
+}
+
+/**
+ * Editor for the generation prompts. Saving adds a version; any version, or the built-in
+ * default, can be brought back, and is itself saved as a new version.
+ */
+const PromptTemplateSettings: React.FC<PromptTemplateSettingsProps> = ({ config }) => {
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('step1');
+  const [draft, setDraft] = useState(() => getPromptTemplate('step1'));
+  const [history, setHistory] = useState<PromptTemplateVersion[]>(() => getTemplateHistory('step1'));
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const def = getTemplateDef(templateId);
+  const current = getPromptTemplate(templateId);
+  const unknown = unknownVariables(templateId, draft);
+  const missingProfile = missingProfileVariables(templateId, draft);
+
+  const select = (id: PromptTemplateId) => {
+    if (draft !== current && !confirm("Discard unsaved changes to this prompt?")) return;
+    setTemplateId(id);
+    setDraft(getPromptTemplate(id));
+    setHistory(getTemplateHistory(id));
+  };
+
+  const commit = (next: PromptTemplateVersion[]) => {
+    setHistory(next);
+    setDraft(next[next.length - 1].text);
+  };
+
+  const insertVariable = (name: string) => {
+    const el = textareaRef.current;
+    const at = el ? el.selectionStart : draft.length;
+    const end = el ? el.selectionEnd : draft.length;
+    setDraft(draft.slice(0, at) + `{{${name}}}` + draft.slice(end));
+    el?.focus();
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+        <MessageSquareText className="w-4 h-4 text-slate-400" /> Prompt templates
+      </label>
+
+      <select value={templateId} onChange={(e) => select(e.target.value as PromptTemplateId)} className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm outline-none bg-white">
+        {PROMPT_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+      </select>
+      <p className="text-xs text-slate-500">{def.description}</p>
+
+      <textarea
+        ref={textareaRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={10}
+        spellCheck={false}
+        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-xs font-mono"
+      />
+
+      <div className="flex flex-wrap gap-1 text-[11px]">
+        {def.variables.map(name => (
+          <button key={name} type="button" onClick={() => insertVariable(name)} className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 font-mono hover:bg-blue-100 hover:text-blue-700 transition" title="Insert at cursor">
+            {`{{${name}}}`}
+          </button>
+        ))}
+      </div>
+      {unknown.length > 0 && (
+        <p className="text-xs text-amber-700">Not a variable of this prompt, will be sent as typed: {unknown.map(n => `{{${n}}}`).join(', ')}</p>
+      )}
+      {missingProfile.length > 0 && (
+        <p className="text-xs text-amber-700">
+          This prompt does not use {missingProfile.map(n => `{{${n}}}`).join(', ')}, so changes to the grade profiles will not reach it. Insert them, or restore the default and reapply your edits.
+        </p>
+      )}
+
+      <div className="flex items-center gap-2 text-xs">
+        <button onClick={() => commit(savePromptTemplate(templateId, draft))} disabled={draft === current} className="flex items-center gap-1 px-3 py-1.5 font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition disabled:opacity-40">
+          <Save size={12} /> Save version
+        </button>
+        <button onClick={() => { if (confirm("Replace this prompt with the built-in default?")) commit(restoreDefaultTemplate(templateId)); }} disabled={current === def.defaultText} className="flex items-center gap-1 px-2 py-1.5 font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition disabled:opacity-40">
+          <RotateCcw size={12} /> Restore default
+        </button>
+        <button onClick={() => setShowHistory(!showHistory)} className={`flex items-center gap-1 px-2 py-1.5 font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition ${showHistory ? 'bg-slate-100' : ''}`}>
+          <History size={12} /> History ({history.length})
+        </button>
+        <button onClick={() => setShowPreview(!showPreview)} className={`flex items-center gap-1 px-2 py-1.5 font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition ${showPreview ? 'bg-slate-100' : ''}`}>
+          <Eye size={12} /> Preview
+        </button>
+      </div>
+
+      {showHistory && (
+        <ul className="max-h-40 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100 text-xs">
+          {history.length === 0 && <li className="px-3 py-2 text-slate-400">No saved versions; the built-in default is in use.</li>}
+          {history.map((version, i) => ({ version, i })).reverse().map(({ version, i }) => (
+            <li key={version.savedAt + '-' + i} className="px-3 py-1.5 flex items-center justify-between gap-2">
+              <span className="text-slate-600">
+                v{i + 1} · {new Date(version.savedAt).toLocaleString()}
+                {version.note && <span className="text-slate-400"> · {version.note}</span>}
+                {i === history.length - 1 && <span className="ml-1 font-bold text-emerald-600">current</span>}
+              </span>
+              {i < history.length - 1 && (
+                <button onClick={() => commit(savePromptTemplate(templateId, version.text, `Restored v${i + 1}`))} className="text-blue-600 hover:text-blue-700 font-medium">
+                  Restore
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showPreview && (
+        config ? (
+          <pre className="max-h-64 overflow-auto p-3 bg-slate-50 border border-slate-200 rounded-lg text-[11px] whitespace-pre-wrap">
+            {previewPrompt(templateId, draft, config)}
+          </pre>
+        ) : (
+          <p className="text-xs text-slate-500">Open the exam form to preview the prompt with its values.</p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplateSettings;
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Database, Search, Trash2, RefreshCw, Plus, Wand2, BookOpen, X } from 'lucide-react';
+import { BankPassage, BankQuestion, BankTags, ExamData } from '../types';
+import {
+  listBankQuestions, listBankPassages, updateBankQuestion, deleteBankQuestion, filterBank, assembleExam,
+  BankFilter, AssemblyRule, EMPTY_BANK_FILTER, BANK_SKILLS, CEFR_LEVELS,
+} from '../services/questionBankService';
+import { COGNITIVE_LEVELS } from '../services/matrixService';
+import InlineText from './InlineText';
+
+interface QuestionBankProps {
+  onAssemble: (exam: ExamData) => void;
+}
+
+const selectClass = "px-2 py-1.5 rounded-lg border border-slate-300 bg-white text-sm";
+
+/** Select/input row shared by the browse filter and each assembly rule. */
+const FilterFields: React.FC<{ filter: BankFilter; grades: string[]; onChange: (filter: BankFilter) => void }> = ({ filter, grades, onChange }) => (
+  <>
+    <select value={filter.grade} onChange={(e) => onChange({ ...filter, grade: e.target.value })} className={selectClass}>
+      <option value="">All grades</option>
+      {grades.map(g => <option key={g} value={g}>{g}</option>)}
+    </select>
+    <select value={filter.skill} onChange={(e) => onChange({ ...filter, skill: e.target.value })} className={selectClass}>
+      <option value="">All skills</option>
+      {BANK_SKILLS.map(s => <option key={s} value={s}>{s}</option>)}
+    </select>
+    <select value={filter.cefr} onChange={(e) => onChange({ ...filter, cefr: e.target.value })} className={selectClass}>
+      <option value="">All CEFR</option>
+      {CEFR_LEVELS.map(c => <option key={c} value={c}>{c}</option>)}
+    </select>
+    <select value={filter.level} onChange={(e) => onChange({ ...filter, level: e.target.value })} className={selectClass}>
+      <option value="">All levels</option>
+      {COGNITIVE_LEVELS.map(l => <option key={l} value={l}>{l}</option>)}
+    </select>
+    <input value={filter.topic} onChange={(e) => onChange({ ...filter, topic: e.target.value })} placeholder="Topic" className={`${selectClass} w-32`} />
+  </>
+);
+
+const QuestionBank: React.FC<QuestionBankProps> = ({ onAssemble }) => {
+  const [entries, setEntries] = useState<BankQuestion[]>([]);
+  const [passages, setPassages] = useState<BankPassage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<BankFilter>(EMPTY_BANK_FILTER);
+
+  const [examTitle, setExamTitle] = useState('ENGLISH TEST');
+  const [duration, setDuration] = useState('45 minutes');
+  const [rules, setRules] = useState<AssemblyRule[]>([{ filter: EMPTY_BANK_FILTER, count: 10, points: 0.25 }]);
+  const [shortfalls, setShortfalls] = useState<string[]>([]);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      const [questions, texts] = await Promise.all([listBankQuestions(), listBankPassages()]);
+      setEntries(questions.sort((a, b) => b.createdAt - a.createdAt));
+      setPassages(texts);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Could not open the question bank.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const grades = useMemo(() => Array.from(new Set(entries.map(e => e.tags.grade).filter(Boolean))).sort(), [entries]);
+  const passageById = useMemo(() => new Map(passages.map(p => [p.id, p])), [passages]);
+  const visible = filterBank(entries, filter);
+
+  const handleTag = async (entry: BankQuestion, patch: Partial<BankTags>) => {
+    const next = { ...entry, tags: { ...entry.tags, ...patch } };
+    setEntries(list => list.map(e => (e.id === entry.id ? next : e)));
+    await updateBankQuestion(next);
+  };
+
+  const handleDelete = async (entry: BankQuestion) => {
+    if (!confirm("Remove this question from the bank?")) return;
+    await deleteBankQuestion(entry.id);
+    setEntries(list => list.filter(e => e.id !== entry.id));
+  };
+
+  const updateRule = (index: number, patch: Partial<AssemblyRule>) =>
+    setRules(list => list.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const handleAssemble = () => {
+    const result = assembleExam(entries, passages, rules.filter(r => r.count > 0), { examTitle, duration });
+    setShortfalls(result.shortfalls);
+    if (result.exam.content.length === 0) return;
+    if (result.shortfalls.length > 0 && !confirm(`Some rules could not be filled:\n${result.shortfalls.join('\n')}\n\nOpen the exam anyway?`)) return;
+    onAssemble(result.exam);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+          <Database className="w-6 h-6 text-teal-600" /> Question Bank
+        </h2>
+        <span className="text-sm text-slate-500">{entries.length} question(s), {passages.length} passage(s) on this device</span>
+      </div>
+
+      {/* Assemble */}
+      <div className="bg-white rounded-xl shadow border border-slate-100 p-4 space-y-3">
+        <h3 className="font-bold text-slate-700 flex items-center gap-2"><Wand2 className="w-4 h-4 text-teal-600" /> Assemble an exam (no AI needed)</h3>
+        <div className="flex flex-wrap gap-2">
+          <input value={examTitle} onChange={(e) => setExamTitle(e.target.value)} placeholder="Exam title" className={`${selectClass} flex-1 min-w-[12rem]`} />
+          <input value={duration} onChange={(e) => setDuration(e.target.value)} placeholder="Duration" className={`${selectClass} w-36`} />
+        </div>
+        {rules.map((rule, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-slate-50 border border-slate-200">
+            <FilterFields filter={rule.filter} grades={grades} onChange={(f) => updateRule(i, { filter: f })} />
+            <label className="flex items-center gap-1 text-sm text-slate-600">
+              Count
+              <input type="number" min={0} value={rule.count} onChange={(e) => updateRule(i, { count: Number(e.target.value) || 0 })} className={`${selectClass} w-16`} />
+            </label>
+            <label className="flex items-center gap-1 text-sm text-slate-600">
+              Pts each
+              <input type="number" min={0} step={0.05} value={rule.points} onChange={(e) => updateRule(i, { points: Number(e.target.value) || 0 })} className={`${selectClass} w-20`} />
+            </label>
+            <span className="text-xs text-slate-500">{filterBank(entries, rule.filter).length} available</span>
+            <button onClick={() => setRules(list => list.filter((_, j) => j !== i))} className="ml-auto p-1 text-slate-400 hover:text-red-600 transition" title="Remove rule">
+              <X size={16} />
+            </button>
+          </div>
+        ))}
+        {shortfalls.length > 0 && (
+          <ul className="text-sm text-amber-700 list-disc pl-5">
+            {shortfalls.map(s => <li key={s}>{s}</li>)}
+          </ul>
+        )}
+        <div className="flex justify-between">
+          <button
+            onClick={() => setRules(list => [...list, { filter: EMPTY_BANK_FILTER, count: 5, points: 0.25 }])}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-semibold text-teal-700 hover:bg-teal-50 rounded-lg transition"
+          >
+            <Plus size={14} /> Add rule
+          </button>
+          <button
+            onClick={handleAssemble}
+            disabled={entries.length === 0 || rules.length === 0}
+            className="px-4 py-2 text-sm font-bold text-white bg-teal-600 rounded-lg hover:bg-teal-700 transition disabled:opacity-50"
+          >
+            Assemble exam
+          </button>
+        </div>
+      </div>
+
+      {/* Browse */}
+      <div className="bg-white rounded-xl shadow border border-slate-100 p-4 flex flex-wrap gap-2">
+        <div className="relative flex-1 min-w-[14rem]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            value={filter.query}
+            onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+            placeholder="Search question text..."
+            className="w-full pl-10 pr-4 py-1.5 rounded-lg border border-slate-300 focus:ring-2 focus:ring-teal-500 outline-none"
+          />
+        </div>
+        <FilterFields filter={filter} grades={grades} onChange={setFilter} />
+      </div>
+
+      {error && <div className="p-4 bg-red-50 border-l-4 border-red-500 text-red-700 rounded">{error}</div>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-20 text-slate-400">
+          <RefreshCw className="w-6 h-6 animate-spin" />
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="text-center py-16 text-slate-400">
+          {entries.length === 0 ? "The bank is empty. Questions are added automatically when you generate an exam, or with \"Save to bank\" on an open exam." : "No questions match these filters."}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(entry => {
+            const passage = entry.passageId ? passageById.get(entry.passageId) : undefined;
+            return (
+              <div key={entry.id} className="bg-white rounded-xl border border-slate-200 p-4 hover:shadow-md transition">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-slate-500 mb-1 truncate">{entry.section}</p>
+                    {passage && (
+                      <details className="mb-2 text-xs text-slate-600">
+                        <summary className="cursor-pointer text-teal-700 font-semibold flex items-center gap-1"><BookOpen size={12} /> Linked passage</summary>
+                        <p className="mt-1 whitespace-pre-wrap border-l-2 border-teal-100 pl-2"><InlineText text={passage.text} /></p>
+                      </details>
+                    )}
+                    <p className="text-sm text-slate-800"><InlineText text={entry.question.text} /></p>
+                    {entry.question.parts && entry.question.parts.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-x-4 text-sm text-slate-600">
+                        {entry.question.parts.map((p, i) => <span key={i}><span className="font-semibold">{p.label}</span> <InlineText text={p.content} /></span>)}
+                      </div>
+                    )}
+                    {entry.answer && <p className="mt-1 text-xs text-emerald-700 font-semibold">Key: {entry.answer.answer}</p>}
+                  </div>
+                  <button onClick={() => handleDelete(entry)} className="p-1.5 text-slate-400 hover:text-red-600 transition" title="Remove from bank">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                  <input value={entry.tags.grade} onChange={(e) => handleTag(entry, { grade: e.target.value })} placeholder="Grade" className="px-2 py-1 rounded border border-slate-200 w-28" />
+                  <select value={entry.tags.skill} onChange={(e) => handleTag(entry, { skill: e.target.value })} className="px-2 py-1 rounded border border-slate-200">
+                    {BANK_SKILLS.map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                  <select value={entry.tags.cefr} onChange={(e) => handleTag(entry, { cefr: e.target.value })} className="px-2 py-1 rounded border border-slate-200">
+                    <option value="">CEFR?</option>
+                    {CEFR_LEVELS.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                  <select value={entry.tags.level} onChange={(e) => handleTag(entry, { level: e.target.value })} className="px-2 py-1 rounded border border-slate-200">
+                    {!COGNITIVE_LEVELS.includes(entry.tags.level) && <option value={entry.tags.level}>{entry.tags.level}</option>}
+                    {COGNITIVE_LEVELS.map(l => <option key={l} value={l}>{l}</option>)}
+                  </select>
+                  <input value={entry.tags.topic} onChange={(e) => handleTag(entry, { topic: e.target.value })} placeholder="Topic" className="px-2 py-1 rounded border border-slate-200 flex-1 min-w-[8rem]" />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionBank;
@@ -0,0 +1,154 @@
+import React from 'react';
+import { Question } from '../types';
+import { questionKind, errorSegments, writingLines, TRUE_FALSE_CHOICES } from '../services/questionKinds';
+import InlineText from './InlineText';
+
+const dottedLine = "..........................................................................................................";
+
+/**
+ * Question text as printed after the number: error-identification segments are
+ * underlined with their letter, and word-form items show the base word.
+ */
+export const QuestionStem: React.FC<{ question: Question }> = ({ question: q }) => {
+  const kind = questionKind(q);
+  const segments = kind === "error_identification" ? errorSegments(q) : null;
+
+  if (segments) {
+    return (
+      <span className="text-justify leading-loose">
+        {segments.map((seg, i) => seg.letter ? (
+          <span key={i} className="relative inline-block underline underline-offset-4">
+            <InlineText text={seg.text} />
+            <span className="absolute left-1/2 -translate-x-1/2 top-full -mt-1 text-[10px] font-bold no-underline">{seg.letter}</span>
+          </span>
+        ) : <span key={i}><InlineText text={seg.text} /></span>)}
+      </span>
+    );
+  }
+
+  return (
+    <span className="text-justify leading-tight">
+      <InlineText text={q.text} />
+      {kind === "word_form" && q.baseWord && <span className="font-bold ml-2">({q.baseWord.toUpperCase()})</span>}
+    </span>
+  );
+};
+
+/**
+ * Everything under the question line, laid out for the question's kind.
+ */
+const QuestionBody: React.FC<{ question: Question }> = ({ question: q }) => {
+  const kind = questionKind(q);
+  const parts = q.parts || [];
+
+  switch (kind) {
+    case "multiple_choice":
+      return (
+        <div className="ml-10 mt-1 grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {parts.map((part, pIdx) => (
+            <div key={pIdx} className="flex gap-1.5">
+              <span className="font-bold">{part.label}</span>
+              <span><InlineText text={part.content} /></span>
+            </div>
+          ))}
+        </div>
+      );
+
+    case "error_identification":
+      // Segments are shown in the sentence; list them only when they could not be placed
+      return errorSegments(q) ? null : (
+        <div className="ml-10 mt-1 grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {parts.map((part, pIdx) => (
+            <div key={pIdx} className="flex gap-1.5">
+              <span className="font-bold">{part.label}</span>
+              <span className="underline"><InlineText text={part.content} /></span>
+            </div>
+          ))}
+        </div>
+      );
+
+    case "true_false":
+      return (
+        <div className="ml-10 mt-1 flex gap-6 text-[12px]">
+          {TRUE_FALSE_CHOICES.map(choice => (
+            <span key={choice} className="flex items-center gap-1.5">
+              <span className="inline-block w-3.5 h-3.5 border border-black" /> {choice}
+            </span>
+          ))}
+        </div>
+      );
+
+    case "matching":
+      return (
+        <div className="ml-10 mt-1 grid grid-cols-2 gap-x-6 gap-y-1">
+          <div className="space-y-1">
+            {parts.map((part, pIdx) => (
+              <div key={pIdx} className="flex gap-2">
+                <span className="font-bold min-w-[20px]">{part.label}</span>
+                <span><InlineText text={part.content} /></span>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1">
+            {(q.matchOptions || []).map((option, oIdx) => (
+              <div key={oIdx} className="flex gap-2">
+                <span className="font-bold min-w-[20px]">{option.label}</span>
+                <span><InlineText text={option.content} /></span>
+              </div>
+            ))}
+          </div>
+          <div className="col-span-2 mt-1 text-[12px]">
+            {parts.map(part => `${part.label.replace(/\.$/, "")} - ____`).join("     ")}
+          </div>
+        </div>
+      );
+
+    case "sentence_transformation":
+      return (
+        <div className="ml-10 mt-1 overflow-hidden whitespace-nowrap">
+          → {q.sentenceStart} {dottedLine.slice((q.sentenceStart || "").length)}
+        </div>
+      );
+
+    case "sentence_ordering":
+      return (
+        <div className="ml-10 mt-1 space-y-1">
+          <div><InlineText text={parts.map(part => part.content).join(" / ")} /></div>
+          <div className="overflow-hidden whitespace-nowrap">→ {dottedLine}</div>
+        </div>
+      );
+
+    case "open_writing":
+      return (
+        <div className="ml-10 mt-1 space-y-1">
+          {parts.map((part, pIdx) => (
+            <div key={pIdx} className="flex gap-2">
+              {part.label && <span className="font-bold min-w-[20px]">{part.label}</span>}
+              <span className="text-justify"><InlineText text={part.content} /></span>
+            </div>
+          ))}
+          {q.wordLimit && <p className="text-[11px] italic text-gray-600">(About {q.wordLimit} words)</p>}
+          {Array.from({ length: writingLines(q) }).map((_, i) => <div key={i} className="overflow-hidden whitespace-nowrap text-gray-500">{dottedLine}</div>)}
+        </div>
+      );
+
+    case "gap_fill":
+    case "word_form":
+      return null;
+
+    default:
+      // Untyped questions from older exams: sub-items one per line
+      return parts.length > 0 ? (
+        <div className="ml-10 mt-1 grid grid-cols-1 gap-2">
+          {parts.map((part, pIdx) => (
+            <div key={pIdx} className="flex gap-2">
+              {part.label && <span className="font-bold min-w-[20px]">{part.label}</span>}
+              <span className="text-justify"><InlineText text={part.content} /></span>
+            </div>
+          ))}
+        </div>
+      ) : null;
+  }
+};
+
+export default QuestionBody;
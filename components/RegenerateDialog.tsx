@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Sparkles, X, RefreshCw } from 'lucide-react';
+
+interface RegenerateDialogProps {
+  title: string;
+  isWorking: boolean;
+  onSubmit: (instruction: string) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = ["Make it harder", "Make it easier", "Test passive voice instead", "Use a different topic"];
+
+const RegenerateDialog: React.FC<RegenerateDialogProps> = ({ title, isWorking, onSubmit, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4 no-print">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+          <div className="flex items-center gap-2 text-slate-800">
+            <Sparkles className="w-5 h-5 text-purple-600" />
+            <h3 className="font-bold text-lg">Regenerate {title}</h3>
+          </div>
+          <button onClick={onClose} title={isWorking ? 'Cancel' : 'Close'} className="text-slate-400 hover:text-slate-600 transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          <label className="block text-sm font-semibold text-slate-700">Instruction (optional)</label>
+          <textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            rows={3}
+            disabled={isWorking}
+            placeholder='e.g. "make it harder", "test passive voice instead"'
+            className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-purple-500 outline-none text-sm"
+          />
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map(s => (
+              <button
+                key={s}
+                type="button"
+                disabled={isWorking}
+                onClick={() => setInstruction(s)}
+                className="px-2 py-1 text-xs rounded-full border border-purple-200 bg-purple-50 text-purple-700 hover:bg-purple-100"
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t border-gray-100 flex justify-end">
+          <button
+            onClick={() => onSubmit(instruction)}
+            disabled={isWorking}
+            className={`flex items-center gap-2 px-6 py-2 bg-purple-600 hover:bg-purple-700 text-white font-bold rounded-lg transition shadow-sm ${isWorking ? 'opacity-70 cursor-wait' : ''}`}
+          >
+            {isWorking ? <RefreshCw size={16} className="animate-spin" /> : <Sparkles size={16} />}
+            {isWorking ? 'Regenerating...' : 'Regenerate'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegenerateDialog;
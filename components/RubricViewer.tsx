@@ -1,13 +1,23 @@
 import React from 'react';
-import { ExamData } from '../types';
+import { ExamData, SchoolProfile } from '../types';
 import { CheckCircle, AlertCircle } from 'lucide-react';
+import { updateAnswer } from '../services/examEditor';
+import { parseSigners } from '../services/schoolProfile';
+import { formatKeyAnswer, findQuestion } from '../services/questionKinds';
+import EditableField from './EditableField';
+import InlineText from './InlineText';
 
 interface RubricViewerProps {
   data: ExamData;
   className?: string;
+  editable?: boolean;
+  onChange?: (data: ExamData) => void;
+  profile?: SchoolProfile;
 }
 
-const RubricViewer: React.FC<RubricViewerProps> = ({ data, className }) => {
+const RubricViewer: React.FC<RubricViewerProps> = ({ data, className, editable = false, onChange, profile }) => {
+  const isEditing = editable && !!onChange;
+  const signers = profile ? parseSigners(profile.signatures) : [];
   
   // Helper to format dense text into readable lines
   const formatRubricText = (text: string) => {
@@ -54,18 +64,44 @@ const RubricViewer: React.FC<RubricViewerProps> = ({ data, className }) => {
                        <span className="bg-slate-100 text-slate-700 font-bold px-3 py-1 rounded text-sm border border-slate-200">
                           {ans.questionId}
                        </span>
+                       {!ans.answer.trim() && (
+                         <span className="flex items-center gap-1 text-xs font-semibold bg-amber-100 text-amber-700 px-2 py-1 rounded no-print">
+                           <AlertCircle className="w-3 h-3" /> No answer yet
+                         </span>
+                       )}
                     </div>
-                    <span className="font-bold text-red-600 bg-red-50 px-3 py-1 rounded-full text-sm border border-red-100">
-                       {ans.pointsDetail}
-                    </span>
+                    {isEditing ? (
+                      <div className="w-32">
+                        <EditableField value={ans.pointsDetail} onCommit={(v) => onChange!(updateAnswer(data, ans.questionId, { pointsDetail: v }))} className="text-sm text-red-600 font-bold" />
+                      </div>
+                    ) : (
+                      <span className="font-bold text-red-600 bg-red-50 px-3 py-1 rounded-full text-sm border border-red-100">
+                         {ans.pointsDetail}
+                      </span>
+                    )}
                  </div>
                  
-                 <div className="text-slate-700 leading-relaxed whitespace-pre-wrap pl-1 text-[15px] text-justify">
-                    {formatRubricText(ans.answer)}
-                 </div>
+                 {isEditing ? (
+                   <EditableField multiline value={ans.answer} placeholder="Enter the correct answer" onCommit={(v) => onChange!(updateAnswer(data, ans.questionId, { answer: v }))} className="text-[15px] text-slate-700" />
+                 ) : (
+                   <div className="text-slate-700 leading-relaxed whitespace-pre-wrap pl-1 text-[15px] text-justify">
+                      <InlineText text={formatRubricText(formatKeyAnswer(findQuestion(data.content, ans.questionId), ans.answer))} />
+                   </div>
+                 )}
               </div>
             ))}
           </div>
+
+          {signers.length > 0 && (
+            <div className="mt-12 flex justify-around gap-4 text-center font-serif">
+              {signers.map((signer, i) => (
+                <div key={i} className="flex-1">
+                  <p className="font-bold uppercase text-sm">{signer.title}</p>
+                  <p className="mt-16 font-bold text-sm">{signer.name}</p>
+                </div>
+              ))}
+            </div>
+          )}
        </div>
     </div>
   );
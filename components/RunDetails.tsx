@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Activity, CheckCircle, ChevronDown, ChevronRight, XCircle, Scissors } from 'lucide-react';
+import { GenerationRun } from '../types';
+
+interface RunDetailsProps {
+  run: GenerationRun;
+  className?: string;
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+const tokens = (n?: number) => (n === undefined ? '–' : n.toLocaleString());
+
+/**
+ * Collapsible log of the generation run behind the exam: every model tried per step,
+ * the one that answered, failures with their status, latency and token usage.
+ */
+const RunDetails: React.FC<RunDetailsProps> = ({ run, className }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const attempts = run.steps.flatMap(s => s.attempts);
+  const promptTokens = attempts.reduce((sum, a) => sum + (a.promptTokens || 0), 0);
+  const responseTokens = attempts.reduce((sum, a) => sum + (a.responseTokens || 0), 0);
+  const totalMs = run.steps.reduce((sum, s) => sum + s.latencyMs, 0);
+  const models = Array.from(new Set(attempts.filter(a => a.ok).map(a => a.target)));
+
+  return (
+    <div className={`rounded-lg border border-slate-200 bg-white text-sm no-print ${className}`}>
+      <button onClick={() => setIsOpen(o => !o)} className="w-full px-4 py-2 flex items-center justify-between gap-3 text-left">
+        <span className="flex items-center gap-2 font-semibold text-slate-700">
+          {isOpen ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+          <Activity size={16} className="text-slate-400" /> Run details
+        </span>
+        <span className="text-xs text-slate-500 truncate">
+          {models.join(', ') || 'No model answered'} · {seconds(totalMs)} · {tokens(promptTokens)} in / {tokens(responseTokens)} out tokens
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-3 space-y-3">
+          <p className="text-xs text-slate-400">Started {new Date(run.startedAt).toLocaleString()}</p>
+          {run.steps.map((step, i) => (
+            <div key={i}>
+              <div className="flex justify-between text-xs font-bold text-slate-600 uppercase tracking-wider">
+                <span>{step.name}</span>
+                <span>{seconds(step.latencyMs)}</span>
+              </div>
+              <table className="w-full mt-1 text-xs">
+                <thead>
+                  <tr className="text-slate-400 text-left">
+                    <th className="font-medium py-0.5">Model</th>
+                    <th className="font-medium text-right">Time</th>
+                    <th className="font-medium text-right">In</th>
+                    <th className="font-medium text-right">Out</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {step.attempts.map((a, j) => (
+                    <React.Fragment key={j}>
+                      <tr className={a.ok ? 'text-slate-700' : 'text-red-600'}>
+                        <td className="py-0.5">
+                          <span className="flex items-center gap-1">
+                            {a.ok ? <CheckCircle size={12} className="text-emerald-600" /> : <XCircle size={12} />}
+                            {a.target}
+                            {a.truncated && <span title="Output was cut off"><Scissors size={12} className="text-amber-600" /></span>}
+                          </span>
+                        </td>
+                        <td className="text-right">{seconds(a.latencyMs)}</td>
+                        <td className="text-right">{tokens(a.promptTokens)}</td>
+                        <td className="text-right">{tokens(a.responseTokens)}</td>
+                      </tr>
+                      {a.error && (
+                        <tr>
+                          <td colSpan={4} className="pl-4 pb-1 text-red-500 break-words">{a.error}</td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunDetails;
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { School, FileText, Trash2, Upload } from 'lucide-react';
+import { ExamTemplate, SchoolProfile } from '../types';
+import { getExamTemplate, saveExamTemplate, deleteExamTemplate } from '../services/schoolProfile';
+import { TEMPLATE_PLACEHOLDERS } from '../services/docxTemplate';
+
+interface SchoolProfileSettingsProps {
+  profile: SchoolProfile;
+  onChange: (profile: SchoolProfile) => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition text-sm";
+
+const SchoolProfileSettings: React.FC<SchoolProfileSettingsProps> = ({ profile, onChange }) => {
+  const [template, setTemplate] = useState<ExamTemplate | undefined>();
+  const [templateError, setTemplateError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getExamTemplate().then(setTemplate).catch(() => setTemplate(undefined));
+  }, []);
+
+  const set = (field: keyof SchoolProfile) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    onChange({ ...profile, [field]: e.target.value });
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await saveExamTemplate(file);
+      setTemplate(await getExamTemplate());
+      setTemplateError(null);
+    } catch (err: any) {
+      setTemplateError(err.message || "Could not store the template.");
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await deleteExamTemplate();
+      setTemplate(undefined);
+      setTemplateError(null);
+    } catch (err: any) {
+      setTemplateError(err.message || "Could not remove the template.");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+        <School className="w-4 h-4 text-slate-400" /> School profile
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <input value={profile.department} onChange={set('department')} placeholder="Sở / Phòng GD&ĐT" className={inputClass} />
+        <input value={profile.school} onChange={set('school')} placeholder="Trường" className={inputClass} />
+        <input value={profile.examName} onChange={set('examName')} placeholder="Kỳ thi, e.g. KIỂM TRA CUỐI HỌC KÌ I" className={inputClass} />
+        <input value={profile.schoolYear} onChange={set('schoolYear')} placeholder="Năm học, e.g. 2025 - 2026" className={inputClass} />
+      </div>
+      <textarea
+        value={profile.signatures}
+        onChange={set('signatures')}
+        rows={3}
+        placeholder={"Signature block, one signer per line:\nNGƯỜI RA ĐỀ | Nguyễn Văn A\nHIỆU TRƯỞNG"}
+        className={inputClass}
+      />
+
+      <div className="p-3 rounded-lg border border-dashed border-slate-300 space-y-2">
+        <div className="flex items-center justify-between gap-2 text-sm">
+          {template ? (
+            <span className="flex items-center gap-1.5 text-slate-700 font-medium truncate">
+              <FileText size={14} className="text-blue-600 shrink-0" /> {template.fileName}
+            </span>
+          ) : (
+            <span className="text-slate-500">No Word template: the built-in layout is used</span>
+          )}
+          <div className="flex items-center gap-1 shrink-0">
+            <label className="flex items-center gap-1 px-2 py-1 text-xs font-semibold text-blue-700 hover:bg-blue-50 rounded cursor-pointer transition">
+              <Upload size={12} /> {template ? 'Replace' : 'Upload .docx'}
+              <input type="file" accept=".docx" className="hidden" onChange={handleUpload} />
+            </label>
+            {template && (
+              <button onClick={handleRemove} className="p-1 text-slate-400 hover:text-red-600 transition" title="Remove template">
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+        </div>
+        <p className="text-xs text-slate-500">
+          Placeholders: {TEMPLATE_PLACEHOLDERS.map(p => `{{${p}}}`).join(', ')}. Put {'{{content}}'}, {'{{answers}}'} and {'{{signatures}}'} on their own line. Each mã đề starts on a new page numbered from 1; a "Trang i/N" footer is added when the template has no footer of its own.
+        </p>
+        {templateError && <p className="text-xs text-red-600">{templateError}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SchoolProfileSettings;
@@ -0,0 +1,117 @@
+import React, { useState, useMemo } from 'react';
+import { Scale, AlertTriangle, CheckCircle } from 'lucide-react';
+import { ExamData } from '../types';
+import { computeScoreSummary, rebalancePoints, RebalanceRule, DEFAULT_LEVEL_WEIGHTS, TARGET_TOTAL } from '../services/scoringService';
+import { normalizeLevel } from '../services/matrixService';
+
+interface ScorePanelProps {
+  data: ExamData;
+  onChange: (data: ExamData) => void;
+  className?: string;
+}
+
+const RULES: { id: RebalanceRule; label: string }[] = [
+  { id: 'equal', label: 'Equal per question' },
+  { id: 'section', label: 'By section weight' },
+  { id: 'level', label: 'By cognitive level' },
+];
+
+const ScorePanel: React.FC<ScorePanelProps> = ({ data, onChange, className }) => {
+  const summary = computeScoreSummary(data);
+  const [isOpen, setIsOpen] = useState(false);
+  const [rule, setRule] = useState<RebalanceRule>('equal');
+  const [sectionWeights, setSectionWeights] = useState<Record<string, number>>({});
+  const [levelWeights, setLevelWeights] = useState<Record<string, number>>(DEFAULT_LEVEL_WEIGHTS);
+
+  const levels = useMemo(
+    () => Array.from(new Set(data.content.flatMap(s => s.questions.map(q => normalizeLevel(q.level))))),
+    [data]
+  );
+
+  // Sections default to their current share of the total
+  const sectionWeight = (sIdx: number) =>
+    sectionWeights[sIdx] ?? (summary.total ? Math.round((summary.sectionTotals[sIdx] / summary.total) * 100) : 0);
+  const levelWeight = (level: string) => levelWeights[level] ?? 25;
+
+  const handleApply = () => {
+    const weights: Record<string, number> = {};
+    if (rule === 'section') data.content.forEach((_, i) => { weights[String(i)] = sectionWeight(i); });
+    if (rule === 'level') levels.forEach(level => { weights[level] = levelWeight(level); });
+    onChange(rebalancePoints(data, rule, weights));
+    setIsOpen(false);
+  };
+
+  return (
+    <div className={`rounded-lg border text-sm no-print ${summary.isOnScale ? 'border-emerald-200 bg-emerald-50/60' : 'border-amber-300 bg-amber-50'} ${className}`}>
+      <div className="px-4 py-2 flex items-center justify-between gap-3">
+        <div className={`flex items-center gap-2 font-semibold ${summary.isOnScale ? 'text-emerald-700' : 'text-amber-800'}`}>
+          {summary.isOnScale ? <CheckCircle size={16} /> : <AlertTriangle size={16} />}
+          Total: {summary.total} / {TARGET_TOTAL} points
+          {!summary.isOnScale && <span className="font-normal">— points do not add up to {TARGET_TOTAL}</span>}
+        </div>
+        <button
+          onClick={() => setIsOpen(o => !o)}
+          className="flex items-center gap-1 px-3 py-1 text-xs font-bold rounded-lg border border-slate-300 bg-white hover:bg-slate-50 transition"
+        >
+          <Scale size={14} /> Rebalance
+        </button>
+      </div>
+
+      <div className="px-4 pb-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600">
+        {data.content.map((s, i) => (
+          <span key={i}><span className="font-medium">{s.section}:</span> {summary.sectionTotals[i]}</span>
+        ))}
+      </div>
+
+      {isOpen && (
+        <div className="border-t border-slate-200 bg-white px-4 py-3 space-y-3 rounded-b-lg">
+          <div className="flex flex-wrap gap-2">
+            {RULES.map(r => (
+              <button
+                key={r.id}
+                onClick={() => setRule(r.id)}
+                className={`px-3 py-1 rounded-full text-xs font-semibold border transition ${rule === r.id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-300'}`}
+              >
+                {r.label}
+              </button>
+            ))}
+          </div>
+
+          {rule === 'section' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {data.content.map((s, i) => (
+                <label key={i} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate">{s.section}</span>
+                  <span className="flex items-center gap-1">
+                    <input type="number" min={0} value={sectionWeight(i)} onChange={(e) => setSectionWeights(w => ({ ...w, [i]: Number(e.target.value) }))} className="w-16 px-2 py-1 border border-slate-300 rounded" />%
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {rule === 'level' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {levels.map(level => (
+                <label key={level} className="flex items-center justify-between gap-2 text-xs">
+                  <span>{level}</span>
+                  <span className="flex items-center gap-1">
+                    <input type="number" min={0} value={levelWeight(level)} onChange={(e) => setLevelWeights(w => ({ ...w, [level]: Number(e.target.value) }))} className="w-16 px-2 py-1 border border-slate-300 rounded" />%
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button onClick={handleApply} className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold rounded-lg transition">
+              Apply to {TARGET_TOTAL} points
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScorePanel;
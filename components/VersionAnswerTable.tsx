@@ -0,0 +1,49 @@
+import React from 'react';
+import { ExamVersion } from '../types';
+import { Table2 } from 'lucide-react';
+import { buildAnswerTable } from '../services/versionService';
+
+interface VersionAnswerTableProps {
+  versions: ExamVersion[];
+  className?: string;
+}
+
+const VersionAnswerTable: React.FC<VersionAnswerTableProps> = ({ versions, className }) => {
+  const { questionIds, cells } = buildAnswerTable(versions);
+
+  if (questionIds.length === 0) return null;
+
+  return (
+    <div className={`bg-white shadow-md rounded-lg overflow-hidden border border-gray-200 ${className}`}>
+      <div className="bg-indigo-50 p-4 border-b border-indigo-100">
+        <h3 className="font-bold text-indigo-800 flex items-center gap-2">
+          <Table2 className="w-5 h-5" /> Bảng đáp án các mã đề
+        </h3>
+      </div>
+      <div className="p-4 overflow-auto max-h-[500px]">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr>
+              <th className="border border-slate-200 bg-slate-50 px-2 py-1 text-left">Câu</th>
+              {versions.map(v => (
+                <th key={v.code} className="border border-slate-200 bg-slate-50 px-2 py-1">{v.code}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {questionIds.map(id => (
+              <tr key={id}>
+                <td className="border border-slate-200 px-2 py-1 font-medium text-slate-700 whitespace-nowrap">{id}</td>
+                {cells[id].map((letter, i) => (
+                  <td key={i} className="border border-slate-200 px-2 py-1 text-center font-bold text-red-600">{letter}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default VersionAnswerTable;
@@ -0,0 +1,58 @@
+import { useState, useCallback } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const MAX_HISTORY = 100;
+
+/**
+ * useState with undo/redo. `set` records a history entry, `reset` starts a fresh history.
+ * Like setState, `set` also takes an updater, for changes computed after an await.
+ */
+export const useHistory = <T,>(initial: T) => {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((update: T | ((current: T) => T)) => {
+    setHistory(h => {
+      const value = typeof update === "function" ? (update as (current: T) => T)(h.present) : update;
+      return value === h.present ? h : {
+        past: [...h.past, h.present].slice(-MAX_HISTORY),
+        present: value,
+        future: [],
+      };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => (h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+    }));
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => (h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+    }));
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,97 @@
+/**
+ * Failure kinds of an AI call, and what the fallback loop does with each:
+ * cancelled stops everything; auth skips the rest of that provider, and when every
+ * provider fails the error thrown is an auth error so Settings opens; rate limits and
+ * network errors are retried on the same model with backoff; the rest move on to the next model.
+ */
+export type AiErrorKind = "auth" | "rate_limit" | "overloaded" | "safety" | "invalid_output" | "network" | "cancelled" | "unknown";
+
+export class AiError extends Error {
+  kind: AiErrorKind;
+  status?: number; // HTTP status when the provider returned one
+  code?: string; // provider status text, e.g. RESOURCE_EXHAUSTED
+  retryAfterMs?: number; // server hint for rate limits
+  target?: string; // "Provider / model" that failed
+
+  constructor(kind: AiErrorKind, message: string, details: { status?: number; code?: string; retryAfterMs?: number; target?: string } = {}) {
+    super(message);
+    this.name = "AiError";
+    this.kind = kind;
+    Object.assign(this, details);
+  }
+
+  /** "429 RESOURCE_EXHAUSTED" or the kind when there is no status. */
+  get statusLabel(): string {
+    return [this.status, this.code].filter(Boolean).join(" ") || this.kind.replace("_", " ");
+  }
+
+  /** One line for the error banner: which model failed, with what status and why. */
+  describe(): string {
+    return `${this.target ? `${this.target}: ` : ""}${this.statusLabel} – ${this.message}`;
+  }
+}
+
+export const isAuthError = (err: unknown): boolean => err instanceof AiError && err.kind === "auth";
+
+export const isCancelled = (err: unknown): boolean => err instanceof AiError && err.kind === "cancelled";
+
+/** Banner text for a failed call; a rejected key names the provider and status it came from. */
+export const errorMessage = (err: any, fallback: string): string =>
+  isAuthError(err) ? (err as AiError).describe() : err?.message || fallback;
+
+export const cancelledError = () => new AiError("cancelled", "Generation was cancelled.");
+
+const STATUS_TEXT: Record<number, string> = {
+  400: "INVALID_ARGUMENT", 401: "UNAUTHENTICATED", 403: "PERMISSION_DENIED", 404: "NOT_FOUND",
+  429: "RESOURCE_EXHAUSTED", 500: "INTERNAL", 503: "UNAVAILABLE", 504: "DEADLINE_EXCEEDED",
+};
+
+/** Retry delay hinted in a Gemini error body ("retryDelay": "37s") or its text ("retry in 12.5s"). */
+const retryHintMs = (text: string): number | undefined => {
+  const match = text.match(/"retryDelay"\s*:\s*"([\d.]+)s"/) || text.match(/retry in ([\d.]+)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/** Retry-After header value: seconds or an HTTP date. */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const kindFor = (status: number | undefined, code: string, text: string): AiErrorKind => {
+  if (status === 401 || code === "UNAUTHENTICATED" || /API[_ ]KEY[_ ]INVALID|invalid api key|incorrect api key/i.test(text)) return "auth";
+  if (status === 403 || code === "PERMISSION_DENIED") return "auth";
+  if (status === 429 || code === "RESOURCE_EXHAUSTED" || /rate limit|quota/i.test(text)) return "rate_limit";
+  if (status === 500 || status === 502 || status === 503 || status === 504 || code === "UNAVAILABLE" || /overloaded/i.test(text)) return "overloaded";
+  if (/safety|blocked|content_filter/i.test(text)) return "safety";
+  if (/failed to fetch|fetch failed|network|ECONNREFUSED|ENOTFOUND|timed? ?out/i.test(text)) return "network";
+  return "unknown";
+};
+
+/**
+ * Turns whatever a provider threw into an AiError tagged with the model that failed.
+ * Reads the HTTP status from SDK errors and the status text from Google's JSON bodies.
+ */
+export const classifyError = (err: unknown, target?: string): AiError => {
+  if (err instanceof AiError) {
+    if (target && !err.target) err.target = target;
+    return err;
+  }
+  const raw: any = err;
+  if (raw?.name === "AbortError") return cancelledError();
+  const text = raw?.message || String(err);
+  const status: number | undefined = typeof raw?.status === "number" ? raw.status : Number(text.match(/^\s*(?:got status:\s*)?(\d{3})\b/)?.[1]) || undefined;
+  const code = text.match(/"status"\s*:\s*"([A-Z_]+)"/)?.[1] || (status ? STATUS_TEXT[status] : undefined) || "";
+  // Google errors carry a JSON body; show its message rather than the whole payload
+  const message = text.match(/"message"\s*:\s*"((?:[^"\\]|\\.)*)"/)?.[1]?.replace(/\\n/g, " ") || text;
+
+  return new AiError(kindFor(status, code, text), message, {
+    status,
+    code: code || undefined,
+    retryAfterMs: retryHintMs(text),
+    target,
+  });
+};
@@ -0,0 +1,276 @@
+import { GoogleGenAI, FinishReason } from "@google/genai";
+import { AiProviderConfig, AiProviderType } from "../types";
+import { newId } from "./localDb";
+import { mockGenerate } from "./mockAiProvider";
+import { AiError, cancelledError, classifyError, parseRetryAfter } from "./aiErrors";
+
+/** What the exam services ask of a model: one prompt, optionally constrained to JSON. */
+export interface AiRequest {
+  contents: string;
+  json?: boolean;
+  signal?: AbortSignal; // aborts the request in flight when the user cancels
+}
+
+/** Token counts from the provider's usage metadata, when it reports them. */
+export interface TokenUsage {
+  promptTokens?: number;
+  responseTokens?: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface StreamResult {
+  text: string;
+  /** True when the output was cut off (token limit or connection drop after text arrived). */
+  truncated: boolean;
+  usage?: TokenUsage;
+}
+
+/**
+ * One backend. `generateStream` reports text as it arrives; a failure after some text
+ * has arrived is still thrown, and the caller decides whether to keep the partial output.
+ */
+export interface AiProvider {
+  generate(model: string, request: AiRequest): Promise<GenerateResult>;
+  generateStream(model: string, request: AiRequest, onChunk: (chunk: string) => void): Promise<Omit<StreamResult, "text">>;
+}
+
+export const PROVIDER_TYPES: { id: AiProviderType; label: string; desc: string }[] = [
+  { id: "gemini", label: "Google Gemini", desc: "Gemini models with an AI Studio API key" },
+  { id: "openai", label: "OpenAI-compatible", desc: "OpenAI, or a local Ollama / LM Studio server" },
+  { id: "mock", label: "Mock (offline)", desc: "Fixed sample output for demos and testing" },
+];
+
+export const GEMINI_MODELS = [
+  "gemini-3-flash-preview",
+  "gemini-3-pro-preview",
+  "gemini-2.5-flash",
+  "gemini-2.5-pro"
+];
+
+const DEFAULT_MODELS: Record<AiProviderType, string[]> = {
+  gemini: GEMINI_MODELS,
+  openai: ["llama3.1"],
+  mock: ["mock"],
+};
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+
+export const newProviderConfig = (type: AiProviderType): AiProviderConfig => ({
+  id: newId(),
+  type,
+  name: PROVIDER_TYPES.find(t => t.id === type)!.label,
+  enabled: true,
+  ...(type === "openai" ? { baseUrl: DEFAULT_BASE_URL, apiKey: "" } : {}),
+  ...(type === "gemini" ? { apiKey: "" } : {}),
+  models: [...DEFAULT_MODELS[type]],
+});
+
+// --- Gemini ---
+
+const geminiProvider = (config: AiProviderConfig): AiProvider => {
+  const apiKey = config.apiKey || process.env.API_KEY;
+  if (!apiKey) throw new AiError("auth", `Missing API Key for ${config.name}. Please click Settings to add your Google Gemini API Key.`);
+  const ai = new GoogleGenAI({ apiKey });
+  const usageOf = (metadata?: { promptTokenCount?: number; candidatesTokenCount?: number }): TokenUsage | undefined =>
+    metadata && { promptTokens: metadata.promptTokenCount, responseTokens: metadata.candidatesTokenCount };
+  const params = (model: string, request: AiRequest) => ({
+    model,
+    contents: request.contents,
+    config: {
+      ...(request.json ? { responseMimeType: "application/json" } : {}),
+      ...(request.signal ? { abortSignal: request.signal } : {}),
+    },
+  });
+
+  return {
+    async generate(model, request) {
+      const response = await ai.models.generateContent(params(model, request));
+      const blocked = response.promptFeedback?.blockReason
+        || (response.candidates?.[0]?.finishReason === FinishReason.SAFETY ? "SAFETY" : undefined);
+      if (!response.text && blocked) throw new AiError("safety", `Blocked by the safety filter (${blocked}).`, { code: blocked });
+      return { text: response.text || "", usage: usageOf(response.usageMetadata) };
+    },
+    async generateStream(model, request, onChunk) {
+      const stream = await ai.models.generateContentStream(params(model, request));
+      let finishReason: FinishReason | undefined;
+      let usage: TokenUsage | undefined;
+      let received = false;
+      for await (const chunk of stream) {
+        usage = usageOf(chunk.usageMetadata) ?? usage;
+        if (chunk.text) {
+          received = true;
+          onChunk(chunk.text);
+        }
+        finishReason = chunk.candidates?.[0]?.finishReason ?? finishReason;
+        if (!received && chunk.promptFeedback?.blockReason) {
+          throw new AiError("safety", `Blocked by the safety filter (${chunk.promptFeedback.blockReason}).`, { code: chunk.promptFeedback.blockReason });
+        }
+      }
+      if (!received && finishReason === FinishReason.SAFETY) throw new AiError("safety", "Blocked by the safety filter (SAFETY).", { code: "SAFETY" });
+      return { truncated: finishReason === FinishReason.MAX_TOKENS, usage };
+    },
+  };
+};
+
+// --- OpenAI-compatible (OpenAI, Ollama, LM Studio, vLLM...) ---
+
+const openAiProvider = (config: AiProviderConfig): AiProvider => {
+  const baseUrl = (config.baseUrl || "").replace(/\/+$/, "");
+  if (!baseUrl) throw new Error(`${config.name} has no server URL. Please set it in Settings.`);
+
+  // response_format is left out: local servers disagree on it and the prompts already ask for JSON only
+  const post = async (model: string, request: AiRequest, stream: boolean) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: [{ role: "user", content: request.contents }],
+        ...(stream && config.streamUsage ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal: request.signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      const error = classifyError(Object.assign(new Error(detail.slice(0, 300) || response.statusText), { status: response.status }));
+      error.retryAfterMs = parseRetryAfter(response.headers.get("retry-after")) ?? error.retryAfterMs;
+      throw error;
+    }
+    return response;
+  };
+
+  const usageOf = (usage?: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage | undefined =>
+    usage && { promptTokens: usage.prompt_tokens, responseTokens: usage.completion_tokens };
+
+  return {
+    async generate(model, request) {
+      const body = await (await post(model, request, false)).json();
+      const choice = body.choices?.[0];
+      if (!choice?.message?.content && choice?.finish_reason === "content_filter") {
+        throw new AiError("safety", "Blocked by the server's content filter.", { code: "content_filter" });
+      }
+      return { text: choice?.message?.content || "", usage: usageOf(body.usage) };
+    },
+    async generateStream(model, request, onChunk) {
+      const response = await post(model, request, true);
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let finishReason: string | undefined;
+      let usage: TokenUsage | undefined;
+
+      // Server-sent events: one "data: {json}" line per delta, ending with "data: [DONE]"
+      const handleLine = (line: string) => {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data || data === "[DONE]") return;
+        let event;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          return; // keep-alives and proxy noise are not JSON; skip them rather than lose the stream
+        }
+        usage = usageOf(event.usage) ?? usage; // sent in a last event with no choices
+        const choice = event.choices?.[0];
+        if (choice?.delta?.content) onChunk(choice.delta.content);
+        finishReason = choice?.finish_reason || finishReason;
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        lines.forEach(handleLine);
+      }
+      // The last event may arrive without a trailing newline
+      handleLine(buffer + decoder.decode());
+      return { truncated: finishReason === "length", usage };
+    },
+  };
+};
+
+// --- Mock ---
+
+// Rough 4-characters-per-token estimate so the run log has numbers to show
+const mockUsage = (request: AiRequest, text: string): TokenUsage => ({
+  promptTokens: Math.ceil(request.contents.length / 4),
+  responseTokens: Math.ceil(text.length / 4),
+});
+
+const mockProvider = (): AiProvider => ({
+  async generate(_model, request) {
+    const text = mockGenerate(request);
+    return { text, usage: mockUsage(request, text) };
+  },
+  async generateStream(_model, request, onChunk) {
+    const text = mockGenerate(request);
+    for (let i = 0; i < text.length; i += 400) {
+      if (request.signal?.aborted) throw cancelledError();
+      onChunk(text.slice(i, i + 400));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return { truncated: false, usage: mockUsage(request, text) };
+  },
+});
+
+export const createProvider = (config: AiProviderConfig): AiProvider => {
+  switch (config.type) {
+    case "gemini": return geminiProvider(config);
+    case "openai": return openAiProvider(config);
+    case "mock": return mockProvider();
+  }
+};
+
+// --- Settings ---
+
+const PROVIDERS_KEY = "ai_providers";
+
+/**
+ * Configured providers in fallback order. Before providers existed the app stored one
+ * Gemini key and a preferred model; those become the first provider.
+ */
+export const loadProviders = (): AiProviderConfig[] => {
+  try {
+    const stored = localStorage.getItem(PROVIDERS_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Fall through to the legacy settings
+  }
+  const preferred = localStorage.getItem('preferred_model');
+  const gemini = newProviderConfig("gemini");
+  gemini.apiKey = localStorage.getItem('user_gemini_api_key') || "";
+  if (preferred && gemini.models.includes(preferred)) {
+    gemini.models = [preferred, ...gemini.models.filter(m => m !== preferred)];
+  }
+  return [gemini];
+};
+
+export const saveProviders = (providers: AiProviderConfig[]) => {
+  localStorage.setItem(PROVIDERS_KEY, JSON.stringify(providers));
+};
+
+/** Whether a provider has what it needs to be called. */
+export const isProviderReady = (config: AiProviderConfig): boolean => {
+  if (!config.enabled || config.models.length === 0) return false;
+  if (config.type === "gemini") return !!(config.apiKey || process.env.API_KEY);
+  if (config.type === "openai") return !!config.baseUrl?.trim();
+  return true;
+};
+
+export interface FallbackTarget {
+  config: AiProviderConfig;
+  model: string;
+}
+
+/** Every enabled provider/model pair, in the order they are tried. */
+export const getFallbackChain = (providers = loadProviders()): FallbackTarget[] =>
+  providers.filter(isProviderReady).flatMap(config => config.models.map(model => ({ config, model })));
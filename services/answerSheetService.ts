@@ -0,0 +1,43 @@
+import { ExamData } from "../types";
+import { isMultipleChoice } from "./examUtils";
+
+export const SHEET_DIGITS = ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"];
+export const SBD_LENGTH = 6;
+export const EXAM_CODE_LENGTH = 3;
+export const ROWS_PER_BLOCK = 10;
+
+export interface AnswerSheetItem {
+  questionId: string;
+  label: string; // short number printed on the sheet
+}
+
+export interface AnswerSheetLayout {
+  /** Multiple choice items split into blocks of ROWS_PER_BLOCK rows. */
+  choiceBlocks: AnswerSheetItem[][];
+  writtenItems: AnswerSheetItem[];
+}
+
+const shortLabel = (id: string) => id.match(/(\d+)\.?$/)?.[1] || id;
+
+/**
+ * Splits the exam into bubble rows (4-option A-D questions, detected like ExamViewer)
+ * and written-answer boxes.
+ */
+export const buildAnswerSheetLayout = (data: ExamData): AnswerSheetLayout => {
+  const choiceItems: AnswerSheetItem[] = [];
+  const writtenItems: AnswerSheetItem[] = [];
+
+  data.content.forEach(section => {
+    section.questions.forEach(q => {
+      const item = { questionId: q.id, label: shortLabel(q.id) };
+      if (isMultipleChoice(q)) choiceItems.push(item);
+      else writtenItems.push(item);
+    });
+  });
+
+  const choiceBlocks: AnswerSheetItem[][] = [];
+  for (let i = 0; i < choiceItems.length; i += ROWS_PER_BLOCK) {
+    choiceBlocks.push(choiceItems.slice(i, i + ROWS_PER_BLOCK));
+  }
+  return { choiceBlocks, writtenItems };
+};
@@ -0,0 +1,77 @@
+/**
+ * Built-in clip art for picture questions at Primary level, grouped by the topics of the
+ * Grade 3-5 textbooks. Glyphs are drawn to PNG when inserted (see renderClipArt).
+ */
+export interface ClipArtItem {
+  glyph: string;
+  label: string;
+}
+
+export interface ClipArtTopic {
+  id: string;
+  label: string;
+  items: ClipArtItem[];
+}
+
+const items = (pairs: [string, string][]): ClipArtItem[] => pairs.map(([glyph, label]) => ({ glyph, label }));
+
+export const CLIP_ART_TOPICS: ClipArtTopic[] = [
+  {
+    id: "animals",
+    label: "Animals",
+    items: items([
+      ["🐶", "dog"], ["🐱", "cat"], ["🐟", "fish"], ["🐦", "bird"], ["🐰", "rabbit"], ["🐮", "cow"],
+      ["🐷", "pig"], ["🐔", "chicken"], ["🦆", "duck"], ["🐴", "horse"], ["🐘", "elephant"], ["🐯", "tiger"],
+      ["🦁", "lion"], ["🐵", "monkey"], ["🐻", "bear"], ["🦒", "giraffe"], ["🐍", "snake"], ["🐢", "turtle"],
+    ]),
+  },
+  {
+    id: "food",
+    label: "Food & drinks",
+    items: items([
+      ["🍎", "apple"], ["🍌", "banana"], ["🍊", "orange"], ["🍇", "grapes"], ["🍉", "watermelon"], ["🥕", "carrot"],
+      ["🍞", "bread"], ["🍚", "rice"], ["🍜", "noodles"], ["🥚", "egg"], ["🍗", "chicken"], ["🐟", "fish"],
+      ["🍰", "cake"], ["🍦", "ice cream"], ["🥛", "milk"], ["🧃", "juice"], ["💧", "water"], ["🍪", "biscuit"],
+    ]),
+  },
+  {
+    id: "family",
+    label: "Family & people",
+    items: items([
+      ["👨", "father"], ["👩", "mother"], ["👦", "brother"], ["👧", "sister"], ["👴", "grandfather"], ["👵", "grandmother"],
+      ["👶", "baby"], ["👨‍👩‍👧‍👦", "family"], ["👩‍🏫", "teacher"], ["👨‍⚕️", "doctor"], ["👩‍🍳", "cook"], ["👨‍🌾", "farmer"],
+    ]),
+  },
+  {
+    id: "school",
+    label: "School things",
+    items: items([
+      ["📚", "books"], ["📖", "book"], ["✏️", "pencil"], ["🖊️", "pen"], ["📏", "ruler"], ["🎒", "school bag"],
+      ["✂️", "scissors"], ["🖍️", "crayon"], ["🏫", "school"], ["💻", "computer"], ["🔔", "bell"], ["🧮", "abacus"],
+    ]),
+  },
+  {
+    id: "toys",
+    label: "Toys & sports",
+    items: items([
+      ["⚽", "football"], ["🏀", "basketball"], ["🏸", "badminton"], ["🚲", "bike"], ["🪁", "kite"], ["🧸", "teddy bear"],
+      ["🪀", "yo-yo"], ["🚗", "car"], ["🪆", "doll"], ["🏊", "swimming"], ["🎨", "painting"], ["🎸", "guitar"],
+    ]),
+  },
+  {
+    id: "weather",
+    label: "Weather & nature",
+    items: items([
+      ["☀️", "sunny"], ["🌧️", "rainy"], ["☁️", "cloudy"], ["❄️", "snowy"], ["🌬️", "windy"], ["🌈", "rainbow"],
+      ["🌳", "tree"], ["🌸", "flower"], ["⛰️", "mountain"], ["🌊", "sea"], ["🌙", "moon"], ["⭐", "star"],
+    ]),
+  },
+  {
+    id: "home",
+    label: "House & rooms",
+    items: items([
+      ["🏠", "house"], ["🛏️", "bed"], ["🪑", "chair"], ["🚪", "door"], ["🪟", "window"], ["🛋️", "sofa"],
+      ["📺", "TV"], ["🛁", "bath"], ["🍳", "kitchen"], ["🕰️", "clock"], ["💡", "lamp"], ["🌷", "garden"],
+    ]),
+  },
+];
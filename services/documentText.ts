@@ -0,0 +1,31 @@
+import * as mammoth from 'mammoth';
+import * as pdfjsLib from 'pdfjs-dist';
+
+// PDFJS worker config
+pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.0.379/pdf.worker.min.mjs`;
+
+/**
+ * Reads the plain text of a .docx or .pdf file. PDF line breaks are kept so
+ * line-based parsers (the exam importer) can see where items start.
+ */
+export const extractTextFromFile = async (file: File): Promise<string> => {
+  const fileType = file.name.split('.').pop()?.toLowerCase();
+
+  if (fileType === 'docx') {
+    const arrayBuffer = await file.arrayBuffer();
+    const result = await mammoth.extractRawText({ arrayBuffer });
+    return result.value;
+  } else if (fileType === 'pdf') {
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    let fullText = "";
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      const pageText = textContent.items.map((item: any) => item.str + (item.hasEOL ? "\n" : " ")).join("");
+      fullText += pageText + "\n";
+    }
+    return fullText;
+  }
+  throw new Error("Unsupported format (use .docx, .pdf)");
+};
@@ -0,0 +1,212 @@
+import JSZip from "jszip";
+import { Document, Packer } from "docx";
+import { ExamData, ExamVersion, SchoolProfile } from "../types";
+import { buildTemplateBlocks } from "./wordExport";
+import { pageFooterPrefix } from "./paginationService";
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+/** Placeholders that are replaced by whole paragraphs; they must sit alone on their line. */
+const BLOCK_PLACEHOLDERS = ["content", "answers", "signatures"] as const;
+type BlockName = typeof BLOCK_PLACEHOLDERS[number];
+
+export const TEMPLATE_PLACEHOLDERS = [
+  "department", "school", "examName", "schoolYear", "examTitle", "duration", "examCode", ...BLOCK_PLACEHOLDERS,
+];
+
+const PARAGRAPH = /<w:p[ >][\s\S]*?<\/w:p>/g;
+const TEXT_RUN = /(<w:t(?:\s[^>]*)?>)([^<]*)(<\/w:t>)/g;
+const RELS_PATH = "word/_rels/document.xml.rels";
+const CONTENT_TYPES_PATH = "[Content_Types].xml";
+const FOOTER_REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer";
+const FOOTER_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml";
+const IMAGE_REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/image";
+const DRAWING_NAMESPACE = 'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"';
+// Section properties that come after <w:pgNumType> in the schema order
+const AFTER_PAGE_NUMBERS = /<w:(cols|formProt|vAlign|noEndnote|titlePg|textDirection|bidi|rtlGutter|docGrid|printerSettings|sectPrChange)[ />]/;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const unescapeXml = (text: string) =>
+  text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, "&");
+
+const paragraphText = (xml: string) =>
+  Array.from(xml.matchAll(TEXT_RUN)).map(m => unescapeXml(m[2])).join("");
+
+/**
+ * Body XML (without the section properties) of a document built by our own exporter.
+ * Its pictures are copied into the target package and relinked under new relationship ids.
+ */
+const bodyXml = async (children: any[], target: JSZip): Promise<string> => {
+  if (children.length === 0) return "";
+  const blob = await Packer.toBlob(new Document({ sections: [{ children }] }));
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  const xml = await zip.file("word/document.xml")!.async("string");
+  let body = xml.slice(xml.indexOf("<w:body>") + "<w:body>".length, xml.lastIndexOf("<w:sectPr"));
+
+  const rels = await zip.file(RELS_PATH)!.async("string");
+  for (const [rel] of rels.matchAll(/<Relationship [^>]*\/>/g)) {
+    const attribute = (name: string) => rel.match(new RegExp(`${name}="([^"]*)"`))?.[1] || "";
+    const media = zip.file(`word/${attribute("Target")}`);
+    if (attribute("Type") !== IMAGE_REL || !media) continue;
+
+    const name = `media/exam-${attribute("Target").split("/").pop()}`;
+    const extension = name.split(".").pop()!.toLowerCase();
+    target.file(`word/${name}`, await media.async("uint8array"));
+    await addContentType(target, "Default", extension, `image/${extension === "jpg" ? "jpeg" : extension}`);
+    const id = await addDocumentRelationship(target, IMAGE_REL, name);
+    body = body.split(`r:embed="${attribute("Id")}"`).join(`r:embed="${id}"`);
+  }
+  return body;
+};
+
+/** Adds a relationship of the main document part and returns its new id. */
+const addDocumentRelationship = async (zip: JSZip, type: string, target: string): Promise<string> => {
+  const rels = await zip.file(RELS_PATH)!.async("string");
+  const used = Array.from(rels.matchAll(/Id="rId(\d+)"/g)).map(m => Number(m[1]));
+  const id = `rId${Math.max(0, ...used) + 1}`;
+  zip.file(RELS_PATH, rels.replace("</Relationships>", `<Relationship Id="${id}" Type="${type}" Target="${target}"/></Relationships>`));
+  return id;
+};
+
+/** Declares the content type of a part ("Override") or of a file extension ("Default"), once. */
+const addContentType = async (zip: JSZip, kind: "Default" | "Override", key: string, contentType: string) => {
+  const types = await zip.file(CONTENT_TYPES_PATH)!.async("string");
+  const attribute = kind === "Default" ? "Extension" : "PartName";
+  if (types.toLowerCase().includes(`${attribute}="${key}"`.toLowerCase())) return;
+  zip.file(CONTENT_TYPES_PATH, types.replace("</Types>", `<${kind} ${attribute}="${key}" ContentType="${contentType}"/></Types>`));
+};
+
+/** A right-aligned "Mã đề 101 – Trang i/N" footer, counting the pages of its own section. */
+const footerXml = (code: string) => {
+  const run = (content: string) => `<w:r><w:rPr><w:b/><w:sz w:val="20"/></w:rPr>${content}</w:r>`;
+  const field = (instr: string) => `<w:fldSimple w:instr=" ${instr} ">${run("<w:t>1</w:t>")}</w:fldSimple>`;
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<w:ftr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<w:p><w:pPr><w:jc w:val="right"/></w:pPr>${run(`<w:t xml:space="preserve">${escapeXml(pageFooterPrefix(code))}Trang </w:t>`)}`
+    + `${field("PAGE")}${run("<w:t>/</w:t>")}${field("SECTIONPAGES")}</w:p></w:ftr>`;
+};
+
+/**
+ * Section properties for one paper: a new page numbered from 1, with the given footer.
+ * Any section type of the template is dropped, so every paper starts on a new page.
+ */
+const paperSectPr = (sectPr: string, footerId?: string) => {
+  let xml = sectPr.replace(/<w:type [^>]*\/>/, "");
+  if (footerId) xml = xml.replace(/<w:sectPr[^>]*>/, open => `${open}<w:footerReference w:type="default" r:id="${footerId}"/>`);
+  if (/<w:pgNumType[ />]/.test(xml)) {
+    return xml.replace(/(<w:pgNumType[^>]*?)\s*w:start="\d*"/, "$1").replace("<w:pgNumType", '<w:pgNumType w:start="1"');
+  }
+  const at = xml.search(AFTER_PAGE_NUMBERS);
+  const insertAt = at >= 0 ? at : xml.lastIndexOf("</w:sectPr>");
+  return `${xml.slice(0, insertAt)}<w:pgNumType w:start="1"/>${xml.slice(insertAt)}`;
+};
+
+/**
+ * Replaces placeholders paragraph by paragraph. Word often splits "{{school}}" over
+ * several runs, so a paragraph holding a placeholder has its text merged into the first
+ * run (keeping that run's formatting) before replacing.
+ */
+const fillParagraphs = (xml: string, values: Record<string, string>, blocks: Partial<Record<BlockName, string>>) =>
+  xml.replace(PARAGRAPH, paragraph => {
+    const text = paragraphText(paragraph);
+    if (!text.includes("{{")) return paragraph;
+
+    const block = text.trim().match(/^\{\{\s*(\w+)\s*\}\}$/);
+    // An empty block still needs a paragraph, e.g. when it sits in a table cell
+    if (block && block[1] in blocks) return blocks[block[1] as BlockName] || "<w:p/>";
+
+    const filled = text.replace(/\{\{\s*(\w+)\s*\}\}/g, (whole, name) => (name in values ? values[name] : whole));
+    let first = true;
+    return paragraph.replace(TEXT_RUN, (_, open: string, _content: string, close: string) => {
+      if (!first) return `${open}${close}`;
+      first = false;
+      const preserved = open.includes("xml:space") ? open : open.replace("<w:t", '<w:t xml:space="preserve"');
+      return `${preserved}${escapeXml(filled)}${close}`;
+    });
+  });
+
+/**
+ * Fills an uploaded .docx template with the exam. With shuffled versions, the template
+ * body is repeated once per mã đề, each in its own section so its pages are numbered
+ * from 1. A template without a footer gets a "Trang i/N" footer per paper.
+ */
+export const fillExamTemplate = async (
+  template: Blob,
+  data: ExamData,
+  versions: ExamVersion[],
+  profile: SchoolProfile
+): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(await template.arrayBuffer());
+  const documentFile = zip.file("word/document.xml");
+  if (!documentFile) throw new Error("The template is not a valid .docx file.");
+
+  const xml = await documentFile.async("string");
+  if (!/\{\{\s*content\s*\}\}/.test(paragraphText(xml))) {
+    throw new Error("The template has no {{content}} placeholder on its own line.");
+  }
+
+  const bodyStart = xml.indexOf("<w:body>") + "<w:body>".length;
+  const sectPrStart = xml.lastIndexOf("<w:sectPr");
+  const bodyEnd = sectPrStart > bodyStart ? sectPrStart : xml.lastIndexOf("</w:body>");
+  const body = xml.slice(bodyStart, bodyEnd);
+  const sectPr = sectPrStart > bodyStart
+    ? xml.slice(sectPrStart, xml.lastIndexOf("</w:body>")).replace(/^<w:sectPr([^>]*?)\s*\/>/, "<w:sectPr$1></w:sectPr>")
+    : "<w:sectPr></w:sectPr>";
+  const hasFooter = /<w:footerReference [^>]*w:type="default"/.test(sectPr);
+
+  const baseValues = {
+    department: profile.department,
+    school: profile.school,
+    examName: profile.examName,
+    schoolYear: profile.schoolYear,
+    examTitle: data.examTitle,
+    duration: data.duration,
+  };
+
+  const papers = versions.length > 0
+    ? versions.map(v => ({ code: v.code, content: v.content, answers: v.answers }))
+    : [{ code: "", content: data.content, answers: data.answers }];
+
+  const filledBodies: string[] = [];
+  const sectPrs: string[] = [];
+  for (const [i, paper] of papers.entries()) {
+    const pieces = buildTemplateBlocks(paper.content, paper.answers, profile);
+    const blocks = {
+      content: await bodyXml(pieces.content, zip),
+      answers: await bodyXml(pieces.answers, zip),
+      signatures: await bodyXml(pieces.signatures, zip),
+    };
+    filledBodies.push(fillParagraphs(body, { ...baseValues, examCode: paper.code }, blocks));
+
+    let footerId: string | undefined;
+    if (!hasFooter) {
+      const footerName = `examFooter${i + 1}.xml`;
+      zip.file(`word/${footerName}`, footerXml(paper.code));
+      await addContentType(zip, "Override", `/word/${footerName}`, FOOTER_TYPE);
+      footerId = await addDocumentRelationship(zip, FOOTER_REL, footerName);
+    }
+    sectPrs.push(paperSectPr(sectPr, footerId));
+  }
+
+  // Each paper but the last ends with a section break; the last takes the body's own section properties
+  // Pictures need unique drawing ids across the repeated papers
+  let drawingId = 0;
+  const papersXml = filledBodies
+    .map((filled, i) => (i < filledBodies.length - 1 ? `${filled}<w:p><w:pPr>${sectPrs[i]}</w:pPr></w:p>` : filled))
+    .join("")
+    .replace(/(<wp:docPr [^>]*?\bid=")\d+"/g, (_, start: string) => `${start}${++drawingId}"`);
+  const head = xml.slice(0, bodyStart);
+  const documentHead = head.includes("xmlns:wp=") ? head : head.replace("<w:document", `<w:document ${DRAWING_NAMESPACE}`);
+  zip.file("word/document.xml", documentHead + papersXml + sectPrs[sectPrs.length - 1] + xml.slice(xml.lastIndexOf("</w:body>")));
+
+  // Headers and footers can carry the school name too
+  const values = { ...baseValues, examCode: papers.length === 1 ? papers[0].code : "" };
+  const extraParts = zip.file(/^word\/(header|footer)\d*\.xml$/);
+  for (const part of extraParts) {
+    zip.file(part.name, fillParagraphs(await part.async("string"), values, {}));
+  }
+
+  return zip.generateAsync({ type: "blob", mimeType: DOCX_MIME });
+};
@@ -0,0 +1,182 @@
+import { AnswerKey, ExamData, ExamSection, Question, QuestionPart } from "../types";
+import { OPTION_LETTERS } from "./examUtils";
+import { formatPoints } from "./scoringService";
+
+/*
+ * Immutable edit operations on ExamData used by the result view edit mode.
+ * Every operation returns a new ExamData so it can be pushed onto the undo history.
+ */
+
+const mapSection = (data: ExamData, sIdx: number, fn: (section: ExamSection) => ExamSection): ExamData => ({
+  ...data,
+  content: data.content.map((s, i) => (i === sIdx ? fn(s) : s)),
+});
+
+const mapQuestion = (data: ExamData, sIdx: number, qIdx: number, fn: (q: Question) => Question): ExamData =>
+  mapSection(data, sIdx, s => ({ ...s, questions: s.questions.map((q, i) => (i === qIdx ? fn(q) : q)) }));
+
+const move = <T,>(items: T[], from: number, delta: number): T[] => {
+  const to = from + delta;
+  if (to < 0 || to >= items.length) return items;
+  const result = [...items];
+  [result[from], result[to]] = [result[to], result[from]];
+  return result;
+};
+
+const NUMBERED_ID = /^(.*?)(\d+)\.?$/;
+
+interface QuestionSlot {
+  sIdx: number;
+  newId: string;
+  claimed: boolean;
+}
+
+/**
+ * Renumbers ids and moves each answer key to its question's new id. Keys are matched to
+ * questions by section and order, not by id alone: ids can repeat across sections (a
+ * regenerated section comes back numbered from 1), and the n-th key for a repeated id
+ * belongs to the n-th question with it. `belongsTo` limits which sections a key may match.
+ */
+const renumber = (data: ExamData, belongsTo: (answerIdx: number, sIdx: number) => boolean = () => true): ExamData => {
+  const slots = new Map<string, QuestionSlot[]>();
+  let counter = 0;
+
+  const content = data.content.map((section, sIdx) => ({
+    ...section,
+    questions: section.questions.map(q => {
+      const match = q.id.match(NUMBERED_ID);
+      const newId = match ? `${match[1]}${++counter}` : q.id;
+      slots.set(q.id, [...(slots.get(q.id) || []), { sIdx, newId, claimed: false }]);
+      return newId === q.id ? q : { ...q, id: newId };
+    }),
+  }));
+
+  const answers = data.answers.map((a, i) => {
+    const candidates = (slots.get(a.questionId) || []).filter(slot => belongsTo(i, slot.sIdx));
+    const slot = candidates.find(c => !c.claimed) || candidates[0];
+    if (!slot) return a;
+    slot.claimed = true;
+    return slot.newId === a.questionId ? a : { ...a, questionId: slot.newId };
+  });
+  return { ...data, content, answers };
+};
+
+/**
+ * Renumbers ids like "Question 7" / "Câu 7" sequentially through the exam and
+ * rewrites the matching answer keys. Ids without a trailing number are left alone.
+ */
+export const renumberQuestions = (data: ExamData): ExamData => renumber(data);
+
+export const updateExamMeta = (data: ExamData, patch: Partial<Pick<ExamData, "examTitle" | "duration">>): ExamData =>
+  ({ ...data, ...patch });
+
+export const updateSection = (data: ExamData, sIdx: number, patch: Partial<Omit<ExamSection, "questions">>): ExamData =>
+  mapSection(data, sIdx, s => ({ ...s, ...patch }));
+
+/**
+ * Updates a question. A points change also rewrites the answer key's pointsDetail
+ * so the paper and the rubric agree.
+ */
+export const updateQuestion = (data: ExamData, sIdx: number, qIdx: number, patch: Partial<Omit<Question, "id">>): ExamData => {
+  const updated = mapQuestion(data, sIdx, qIdx, q => ({ ...q, ...patch }));
+  const questionId = data.content[sIdx]?.questions[qIdx]?.id;
+  if (patch.points === undefined || !questionId || !data.answers.some(a => a.questionId === questionId)) return updated;
+  return updateAnswer(updated, questionId, { pointsDetail: formatPoints(patch.points) });
+};
+
+export const updatePart = (data: ExamData, sIdx: number, qIdx: number, pIdx: number, patch: Partial<QuestionPart>): ExamData =>
+  mapQuestion(data, sIdx, qIdx, q => ({ ...q, parts: (q.parts || []).map((p, i) => (i === pIdx ? { ...p, ...patch } : p)) }));
+
+export const addPart = (data: ExamData, sIdx: number, qIdx: number): ExamData =>
+  mapQuestion(data, sIdx, qIdx, q => {
+    const parts = q.parts || [];
+    const label = parts.length < OPTION_LETTERS.length ? `${OPTION_LETTERS[parts.length]}.` : `${parts.length + 1}.`;
+    return { ...q, parts: [...parts, { label, content: "" }] };
+  });
+
+export const removePart = (data: ExamData, sIdx: number, qIdx: number, pIdx: number): ExamData =>
+  mapQuestion(data, sIdx, qIdx, q => ({ ...q, parts: (q.parts || []).filter((_, i) => i !== pIdx) }));
+
+/**
+ * Updates (or creates) the answer key for a question.
+ */
+export const updateAnswer = (data: ExamData, questionId: string, patch: Partial<Omit<AnswerKey, "questionId">>): ExamData => {
+  const exists = data.answers.some(a => a.questionId === questionId);
+  const answers = exists
+    ? data.answers.map(a => (a.questionId === questionId ? { ...a, ...patch } : a))
+    : [...data.answers, { questionId, answer: "", pointsDetail: "", ...patch }];
+  return { ...data, answers };
+};
+
+/**
+ * Appends a blank multiple choice question to a section. Its answer key starts empty, and
+ * the rubric flags it until the teacher fills it in.
+ */
+export const addQuestion = (data: ExamData, sIdx: number): ExamData => {
+  const allQuestions = data.content.flatMap(s => s.questions);
+  // Reuse the exam's own prefix ("Question ", "Câu ") for the new id
+  const prefix = allQuestions.map(q => q.id.match(NUMBERED_ID)?.[1]).find(p => p !== undefined) ?? "Question ";
+  // Numbered past every id in use, so the new key cannot be matched to another question
+  const used = new Set([...allQuestions.map(q => q.id), ...data.answers.map(a => a.questionId)]);
+  let n = Math.max(0, ...allQuestions.map(q => Number(q.id.match(NUMBERED_ID)?.[2] || 0))) + 1;
+  while (used.has(`${prefix}${n}`)) n++;
+  const id = `${prefix}${n}`;
+  const question: Question = {
+    id,
+    text: "",
+    points: 0.25,
+    parts: OPTION_LETTERS.map(l => ({ label: `${l}.`, content: "" })),
+  };
+  const withQuestion = mapSection(data, sIdx, s => ({ ...s, questions: [...s.questions, question] }));
+  return renumberQuestions({ ...withQuestion, answers: [...data.answers, { questionId: id, answer: "", pointsDetail: "0.25 pts" }] });
+};
+
+export const deleteQuestion = (data: ExamData, sIdx: number, qIdx: number): ExamData => {
+  const removedId = data.content[sIdx]?.questions[qIdx]?.id;
+  const withoutQuestion = mapSection(data, sIdx, s => ({ ...s, questions: s.questions.filter((_, i) => i !== qIdx) }));
+  return renumberQuestions({ ...withoutQuestion, answers: data.answers.filter(a => a.questionId !== removedId) });
+};
+
+export const moveQuestion = (data: ExamData, sIdx: number, qIdx: number, delta: number): ExamData =>
+  renumberQuestions(mapSection(data, sIdx, s => ({ ...s, questions: move(s.questions, qIdx, delta) })));
+
+export const addSection = (data: ExamData): ExamData => ({
+  ...data,
+  content: [...data.content, { section: "NEW SECTION", questions: [] }],
+});
+
+export const deleteSection = (data: ExamData, sIdx: number): ExamData => {
+  const removedIds = new Set((data.content[sIdx]?.questions || []).map(q => q.id));
+  return renumberQuestions({
+    ...data,
+    content: data.content.filter((_, i) => i !== sIdx),
+    answers: data.answers.filter(a => !removedIds.has(a.questionId)),
+  });
+};
+
+export const moveSection = (data: ExamData, sIdx: number, delta: number): ExamData =>
+  renumberQuestions({ ...data, content: move(data.content, sIdx, delta) });
+
+/**
+ * Swaps in a regenerated question, keeping its slot and replacing its answer key.
+ */
+export const replaceQuestion = (data: ExamData, sIdx: number, qIdx: number, question: Question, answer: AnswerKey): ExamData =>
+  updateAnswer(mapQuestion(data, sIdx, qIdx, () => question), question.id, answer);
+
+/**
+ * Swaps in a regenerated section and replaces the answer keys of its old questions.
+ */
+export const replaceSection = (data: ExamData, sIdx: number, section: ExamSection, answers: AnswerKey[]): ExamData => {
+  const oldIds = new Set((data.content[sIdx]?.questions || []).map(q => q.id));
+  // New keys go where the old ones were so the rubric keeps its order
+  const firstOld = data.answers.findIndex(a => oldIds.has(a.questionId));
+  const kept = data.answers.filter(a => !oldIds.has(a.questionId));
+  const insertAt = firstOld === -1 ? kept.length : firstOld;
+  // The new keys only match the new section, the kept ones only the other sections
+  const isNewKey = (answerIdx: number) => answerIdx >= insertAt && answerIdx < insertAt + answers.length;
+  return renumber({
+    ...data,
+    content: data.content.map((s, i) => (i === sIdx ? section : s)),
+    answers: [...kept.slice(0, insertAt), ...answers, ...kept.slice(insertAt)],
+  }, (answerIdx, answerSection) => isNewKey(answerIdx) === (answerSection === sIdx));
+};
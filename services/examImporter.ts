@@ -0,0 +1,269 @@
+import { AnswerKey, ExamData, ExamSection, Question, QuestionPart } from "../types";
+import { isMultipleChoice, OPTION_LETTERS } from "./examUtils";
+import { validateExamData, formatIssues } from "./examValidator";
+import { rebalancePoints, formatPoints } from "./scoringService";
+
+export interface ImportResult {
+  data: ExamData | null;
+  warnings: string[];
+  stats: { sections: number; questions: number; choiceQuestions: number; answers: number };
+}
+
+const ROMAN_HEADER = /^([IVX]{1,5})\s*[.)]\s+(.+)$/;
+const PART_HEADER = /^(?:PART|PHẦN|SECTION)\s+(?:[IVX]+|\d+|[A-Z])\b\s*[.:\-–]?\s*(.*)$/i;
+const NAMED_QUESTION = /^(?:Question|Câu|Q)\s*(\d{1,3})\s*[.:)]\s*(.*)$/i;
+const NUMBERED_QUESTION = /^(\d{1,3})\s*[.)]\s+(.*)$/;
+const INSTRUCTION = /^(mark|choose|read|circle|complete|rewrite|write|give|find|listen|look|match|put|fill|arrange|reorder|select|underline|khoanh|chọn|đọc|viết|hoàn thành|sắp xếp)\b/i;
+// "ĐÁP ÁN" as a heading, not an inline "Đáp án: B"
+const ANSWER_KEY_HEADER = /^(?:[IVX]+\.\s*)?(ĐÁP ÁN|ANSWER KEYS?|HƯỚNG DẪN CHẤM)(?!\s*[:.]\s*[A-D]\b)/i;
+const INLINE_ANSWER = /^(?:Answer|Key|Đáp án)\s*[:.]\s*(.+)$/i;
+const END_MARKER = /^[-–—_.\s]*(THE END|HẾT|END)[-–—_.\s]*$/i;
+const POINTS = /\(\s*(\d+(?:[.,]\d+)?)\s*(?:pts?|points?|điểm|đ)\s*\)/i;
+const TITLE_HINT = /(ĐỀ|KIỂM TRA|THI|EXAM|TEST)/i;
+const DURATION = /(?:thời gian(?: làm bài)?|time(?: allowed)?)\s*[:\-]?\s*(\d+\s*(?:phút|minutes?|mins?))/i;
+
+interface DraftQuestion {
+  number: number;
+  text: string;
+  parts: QuestionPart[];
+  points?: number;
+  inlineAnswer?: string;
+}
+
+interface DraftSection {
+  section: string;
+  textLines: string[];
+  questions: DraftQuestion[];
+}
+
+/**
+ * Splits "A. cat   B. hat  C. bat" into options. Letters must follow each other
+ * (A, B, C...) so a stray "I." or "B." inside a sentence is not mistaken for an option.
+ */
+const splitOptions = (line: string): QuestionPart[] | null => {
+  if (!/^[A-D]\s*[.)]/.test(line)) return null;
+  const marks: { letter: string; start: number; contentStart: number }[] = [];
+  const pattern = /(^|\s)([A-D])\s*[.)]\s*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line))) {
+    const expected = marks.length ? String.fromCharCode(marks[marks.length - 1].letter.charCodeAt(0) + 1) : match[2];
+    if (match[2] !== expected) continue;
+    marks.push({ letter: match[2], start: match.index + match[1].length, contentStart: match.index + match[0].length });
+  }
+  return marks.map((mark, i) => ({
+    label: `${mark.letter}.`,
+    content: line.slice(mark.contentStart, marks[i + 1]?.start ?? line.length).trim(),
+  }));
+};
+
+/** Position where inline options start in a question line ("Question 1. A. cat B. hat ..."). */
+const inlineOptionsStart = (text: string): number => {
+  const match = text.match(/(^|\s)A\s*[.)]\s*\S.*\sB\s*[.)]/);
+  return match ? (match.index || 0) + match[1].length : -1;
+};
+
+const parsePoints = (text: string): { text: string; points?: number } => {
+  const match = text.match(POINTS);
+  if (!match) return { text };
+  return { text: text.replace(match[0], "").trim(), points: parseFloat(match[1].replace(",", ".")) };
+};
+
+/**
+ * Reads a key laid out as a table: a row of question numbers, then (after an optional
+ * "Đáp án" label) a row of letters, whether each row is one line or one cell per line.
+ */
+const readKeyTables = (lines: string[], letters: Map<number, string>) => {
+  const cells = lines.join(" ").split(/[\s|]+/).filter(Boolean);
+  const runFrom = (start: number, pattern: RegExp) => {
+    let end = start;
+    while (end < cells.length && pattern.test(cells[end])) end++;
+    return end;
+  };
+  for (let i = 0; i < cells.length; i++) {
+    const numbersEnd = runFrom(i, /^\d{1,3}$/);
+    if (numbersEnd - i < 2) continue;
+    // Skip up to two label words ("Đáp án", "Answer", "Key") between the rows
+    let lettersStart = numbersEnd;
+    while (lettersStart < numbersEnd + 2 && cells[lettersStart] && !/^(?:\d+|[A-D])$/.test(cells[lettersStart])) lettersStart++;
+    const lettersEnd = runFrom(lettersStart, /^[A-D]$/);
+    if (lettersEnd - lettersStart < numbersEnd - i) continue;
+    for (let k = 0; k < numbersEnd - i; k++) {
+      const number = Number(cells[i + k]);
+      if (!letters.has(number)) letters.set(number, cells[lettersStart + k]);
+    }
+    i = lettersEnd - 1;
+  }
+};
+
+/**
+ * Reads the answer key region: "1. A", "1-A", "Câu 1: B", "1A 2B 3C", tables with a row of
+ * numbers over a row of letters, and written answers such as "Question 31: He said that ...".
+ */
+const parseAnswerKey = (lines: string[]): { letters: Map<number, string>; texts: Map<number, string> } => {
+  const letters = new Map<number, string>();
+  const texts = new Map<number, string>();
+
+  lines.forEach(line => {
+    const named = line.match(NAMED_QUESTION);
+    if (named && named[2] && !/^[A-D]\b/i.test(named[2].trim())) texts.set(Number(named[1]), named[2].trim());
+  });
+
+  // Tables first: in "1 2 3 4 A B C D" the pairs below would read "4 A"
+  readKeyTables(lines, letters);
+  const pairs = /(?:Question|Câu)?\s*(\d{1,3})\s*[.:)\-–]?\s*([A-D])(?![A-Za-z])/gi;
+  let match: RegExpExecArray | null;
+  const joined = lines.join(" ");
+  while ((match = pairs.exec(joined))) {
+    const number = Number(match[1]);
+    if (!letters.has(number)) letters.set(number, match[2].toUpperCase());
+  }
+  return { letters, texts };
+};
+
+/**
+ * Rule-based import of an exam document's plain text: section headers ("I. PHẦN TRẮC
+ * NGHIỆM", "PART 2"), instruction lines, "Question N." / "Câu N:" items, A-D options
+ * (one per line or several on a line), and a trailing answer key.
+ */
+export const parseExamText = (raw: string): ImportResult => {
+  const warnings: string[] = [];
+  const lines = raw.split(/\r?\n/).map(l => l.replace(/\s+/g, " ").trim()).filter(Boolean);
+
+  const keyStart = lines.findIndex((l, i) => i > 0 && ANSWER_KEY_HEADER.test(l) && l.length < 60);
+  const body = keyStart === -1 ? lines : lines.slice(0, keyStart);
+  const keyLines = keyStart === -1 ? [] : lines.slice(keyStart + 1);
+
+  // Only fall back to bare "12." numbering when the document never writes "Question"/"Câu"
+  const questionPattern = body.some(l => NAMED_QUESTION.test(l)) ? NAMED_QUESTION : NUMBERED_QUESTION;
+
+  let examTitle = "";
+  let duration = "";
+  const sections: DraftSection[] = [];
+  let section: DraftSection | null = null;
+  let question: DraftQuestion | null = null;
+
+  const startSection = (title: string) => {
+    section = { section: title, textLines: [], questions: [] };
+    sections.push(section);
+    question = null;
+  };
+
+  body.forEach(line => {
+    if (END_MARKER.test(line)) return;
+
+    const durationMatch = line.match(DURATION);
+    if (durationMatch && !duration) duration = durationMatch[1];
+
+    if (ROMAN_HEADER.test(line) || PART_HEADER.test(line)) {
+      startSection(line);
+      return;
+    }
+
+    const questionMatch = line.match(questionPattern);
+    if (questionMatch) {
+      if (!section) startSection("PART 1");
+      const { text, points } = parsePoints(questionMatch[2]);
+      const optionsAt = inlineOptionsStart(text);
+      const draft: DraftQuestion = {
+        number: Number(questionMatch[1]),
+        text: optionsAt === -1 ? text : text.slice(0, optionsAt).trim(),
+        parts: optionsAt === -1 ? [] : splitOptions(text.slice(optionsAt)) || [],
+        points,
+      };
+      section!.questions.push(draft);
+      question = draft;
+      return;
+    }
+
+    const options = question ? splitOptions(line) : null;
+    if (options && options.length > 0) {
+      question!.parts.push(...options);
+      return;
+    }
+
+    const inlineAnswer = question ? line.match(INLINE_ANSWER) : null;
+    if (inlineAnswer) {
+      question!.inlineAnswer = inlineAnswer[1].trim();
+      return;
+    }
+
+    if (INSTRUCTION.test(line)) {
+      const current = section as DraftSection | null;
+      if (current && current.questions.length === 0 && current.textLines.length === 0) {
+        // "I. PHẦN TRẮC NGHIỆM" followed by its instruction
+        current.section = current.section === "PART 1" ? line : `${current.section}: ${line}`;
+      } else {
+        startSection(line);
+      }
+      return;
+    }
+
+    if (!section) {
+      // Paper header: school, title, student fields
+      if (!examTitle && TITLE_HINT.test(line) && !/sở|trường|school/i.test(line)) examTitle = line;
+      return;
+    }
+
+    if (question) {
+      const q = question as DraftQuestion;
+      if (q.parts.length > 0) q.parts[q.parts.length - 1].content += ` ${line}`;
+      else q.text = `${q.text} ${line}`.trim();
+    } else {
+      (section as DraftSection).textLines.push(line);
+    }
+  });
+
+  const { letters, texts } = parseAnswerKey(keyLines);
+
+  // Sequential ids; answers are matched through the number printed on the paper
+  let counter = 0;
+  const answers: AnswerKey[] = [];
+  const content: ExamSection[] = sections
+    .filter(s => s.questions.length > 0)
+    .map(s => ({
+      section: s.section,
+      text: s.textLines.length ? s.textLines.join("\n") : undefined,
+      questions: s.questions.map(d => {
+        counter++;
+        const q: Question = { id: `Question ${counter}`, text: d.text, points: d.points ?? 0 };
+        if (d.parts.length > 0) q.parts = d.parts;
+        const answer = d.inlineAnswer || letters.get(d.number) || texts.get(d.number);
+        if (answer) answers.push({ questionId: q.id, answer, pointsDetail: formatPoints(q.points) });
+        return q;
+      }),
+    }));
+
+  const questions = content.flatMap(s => s.questions);
+  const stats = {
+    sections: content.length,
+    questions: questions.length,
+    choiceQuestions: questions.filter(isMultipleChoice).length,
+    answers: answers.length,
+  };
+
+  if (questions.length === 0) {
+    return { data: null, warnings: ["No \"Question N.\" or \"Câu N:\" items were found."], stats };
+  }
+
+  let data: ExamData = { examTitle: examTitle || "IMPORTED EXAM", duration: duration || "45 minutes", content, answers };
+  if (questions.every(q => !q.points)) {
+    data = rebalancePoints(data, "equal");
+    warnings.push("No points were found in the document, so they were split equally over 10 points.");
+  } else if (questions.some(q => !q.points)) {
+    warnings.push(`${questions.filter(q => !q.points).length} question(s) have no points. Use Rebalance to fix the total.`);
+  }
+
+  const odd = questions.filter(q => q.parts && q.parts.length > 0 && q.parts.length !== OPTION_LETTERS.length);
+  if (odd.length > 0) warnings.push(`${odd.length} question(s) do not have exactly 4 options: ${odd.slice(0, 5).map(q => q.id).join(", ")}`);
+  const keyed = new Set(answers.map(a => a.questionId));
+  const unkeyed = questions.filter(q => !keyed.has(q.id));
+  if (unkeyed.length > 0) {
+    const listed = unkeyed.slice(0, 5).map(q => q.id).join(", ") + (unkeyed.length > 5 ? ", ..." : "");
+    warnings.push(`${unkeyed.length} question(s) have no answer in the key: ${listed}. Fill them in on the rubric.`);
+  }
+  if (keyStart === -1) warnings.push("No answer key section (\"ĐÁP ÁN\" / \"ANSWER KEY\") was found.");
+
+  const validated = validateExamData(data);
+  if (validated.issues.length > 0) warnings.push(formatIssues(validated.issues, 5));
+  return { data: validated.data, warnings, stats };
+};
@@ -0,0 +1,19 @@
+import { Question } from "../types";
+
+export const OPTION_LETTERS = ["A", "B", "C", "D"];
+
+/**
+ * A question is answered with one letter A-D when it has exactly 4 parts labelled A. to D.
+ * Error identification counts too; other typed kinds never do, whatever their parts.
+ */
+export const isMultipleChoice = (q: Question): boolean =>
+  (!q.kind || q.kind === "multiple_choice" || q.kind === "error_identification") &&
+  !!q.parts && q.parts.length === 4 && q.parts.every(p => /^[A-D]\./.test(p.label || ""));
+
+/**
+ * Extracts the option letter from answers like "B", "B.", "(B)" or "B. went".
+ */
+export const parseAnswerLetter = (answer: string): string | null => {
+  const match = (answer || "").trim().match(/^\(?([A-Da-d])(?:[.):]|\s|$)/);
+  return match ? match[1].toUpperCase() : null;
+};
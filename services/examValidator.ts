@@ -0,0 +1,188 @@
+import { AnswerKey, ExamData, ExamSection, Question, QuestionPart } from "../types";
+import { QUESTION_KIND_IDS } from "./questionKinds";
+
+export interface ValidationIssue {
+  path: string; // e.g. "content[1].questions[3].points"
+  message: string;
+}
+
+export interface ValidationResult {
+  /** Exam rebuilt from the parts that passed validation, or null if nothing usable survived. */
+  data: ExamData | null;
+  issues: ValidationIssue[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+export const validateQuestionPart = (raw: unknown, path: string, issues: ValidationIssue[]): QuestionPart | null => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: "must be an object with 'label' and 'content'" });
+    return null;
+  }
+  const before = issues.length;
+  if (typeof raw.label !== "string") issues.push({ path: `${path}.label`, message: "must be a string" });
+  if (!isNonEmptyString(raw.content)) issues.push({ path: `${path}.content`, message: "must be a non-empty string" });
+  if (raw.points !== undefined && typeof raw.points !== "string") issues.push({ path: `${path}.points`, message: "must be a string when present" });
+  return issues.length === before ? (raw as QuestionPart) : null;
+};
+
+const validateImages = (raw: unknown, path: string, issues: ValidationIssue[]) => {
+  if (raw === undefined) return;
+  if (!Array.isArray(raw)) {
+    issues.push({ path, message: "must be an array when present" });
+    return;
+  }
+  raw.forEach((image: unknown, i: number) => {
+    if (!isObject(image) || typeof image.dataUrl !== "string" || !image.dataUrl.startsWith("data:image/")) {
+      issues.push({ path: `${path}[${i}]`, message: "must be an image with a 'dataUrl'" });
+    } else if (typeof image.width !== "number" || typeof image.height !== "number") {
+      issues.push({ path: `${path}[${i}]`, message: "must have a numeric 'width' and 'height'" });
+    }
+  });
+};
+
+export const validateQuestion = (raw: unknown, path: string, issues: ValidationIssue[]): Question | null => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: "must be an object" });
+    return null;
+  }
+  const before = issues.length;
+  if (!isNonEmptyString(raw.id)) issues.push({ path: `${path}.id`, message: "must be a non-empty string" });
+  if (typeof raw.text !== "string") issues.push({ path: `${path}.text`, message: "must be a string" });
+  if (typeof raw.points !== "number" || !Number.isFinite(raw.points) || raw.points < 0) {
+    issues.push({ path: `${path}.points`, message: `must be a non-negative number, got ${JSON.stringify(raw.points)}` });
+  }
+  ["level", "skill", "objective"].forEach(key => {
+    if (raw[key] !== undefined && typeof raw[key] !== "string") issues.push({ path: `${path}.${key}`, message: "must be a string when present" });
+  });
+  if (raw.kind !== undefined && !QUESTION_KIND_IDS.includes(raw.kind)) {
+    issues.push({ path: `${path}.kind`, message: `must be one of ${QUESTION_KIND_IDS.join(", ")}, got ${JSON.stringify(raw.kind)}` });
+  }
+  ["baseWord", "sentenceStart"].forEach(key => {
+    if (raw[key] !== undefined && typeof raw[key] !== "string") issues.push({ path: `${path}.${key}`, message: "must be a string when present" });
+  });
+  if (raw.wordLimit !== undefined && (typeof raw.wordLimit !== "number" || raw.wordLimit <= 0)) {
+    issues.push({ path: `${path}.wordLimit`, message: "must be a positive number when present" });
+  }
+  ["parts", "matchOptions"].forEach(key => {
+    if (raw[key] === undefined) return;
+    if (!Array.isArray(raw[key])) issues.push({ path: `${path}.${key}`, message: "must be an array when present" });
+    else raw[key].forEach((p: unknown, i: number) => validateQuestionPart(p, `${path}.${key}[${i}]`, issues));
+  });
+  if (raw.kind === "matching" && !Array.isArray(raw.matchOptions)) {
+    issues.push({ path: `${path}.matchOptions`, message: "is required for matching questions" });
+  }
+  validateImages(raw.images, `${path}.images`, issues);
+  return issues.length === before ? (raw as Question) : null;
+};
+
+export const validateSection = (raw: unknown, path: string, issues: ValidationIssue[]): ExamSection | null => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: "must be an object" });
+    return null;
+  }
+  const before = issues.length;
+  if (!isNonEmptyString(raw.section)) issues.push({ path: `${path}.section`, message: "must be a non-empty string" });
+  if (raw.text !== undefined && typeof raw.text !== "string") issues.push({ path: `${path}.text`, message: "must be a string when present" });
+  if (raw.source !== undefined && typeof raw.source !== "string") issues.push({ path: `${path}.source`, message: "must be a string when present" });
+  validateImages(raw.images, `${path}.images`, issues);
+  if (!Array.isArray(raw.questions)) {
+    issues.push({ path: `${path}.questions`, message: "is missing or not an array" });
+  } else {
+    raw.questions.forEach((q: unknown, i: number) => validateQuestion(q, `${path}.questions[${i}]`, issues));
+  }
+  return issues.length === before ? (raw as ExamSection) : null;
+};
+
+export const validateAnswerKey = (raw: unknown, path: string, issues: ValidationIssue[]): AnswerKey | null => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: "must be an object" });
+    return null;
+  }
+  const before = issues.length;
+  if (!isNonEmptyString(raw.questionId)) issues.push({ path: `${path}.questionId`, message: "must be a non-empty string" });
+  if (!isNonEmptyString(raw.answer)) issues.push({ path: `${path}.answer`, message: "must be a non-empty string" });
+  if (typeof raw.pointsDetail !== "string") issues.push({ path: `${path}.pointsDetail`, message: "must be a string" });
+  return issues.length === before ? (raw as AnswerKey) : null;
+};
+
+/**
+ * Validates an AI response against the ExamData shape and cross-checks
+ * that every answer points at an existing question.
+ * Sections with problems are dropped from `data`; valid ones are kept.
+ */
+export const validateExamData = (raw: unknown): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+
+  if (!isObject(raw)) {
+    issues.push({ path: "$", message: "root must be a JSON object" });
+    return { data: null, issues };
+  }
+
+  if (!isNonEmptyString(raw.examTitle)) issues.push({ path: "examTitle", message: "must be a non-empty string" });
+  if (!isNonEmptyString(raw.duration)) issues.push({ path: "duration", message: "must be a non-empty string" });
+  if (raw.matrixMapping !== undefined && (!Array.isArray(raw.matrixMapping) || raw.matrixMapping.some((m: unknown) => typeof m !== "string"))) {
+    issues.push({ path: "matrixMapping", message: "must be an array of strings when present" });
+  }
+
+  const sections: ExamSection[] = [];
+  if (!Array.isArray(raw.content)) {
+    issues.push({ path: "content", message: "is missing or not an array" });
+  } else {
+    raw.content.forEach((s: unknown, i: number) => {
+      const section = validateSection(s, `content[${i}]`, issues);
+      if (section) sections.push(section);
+    });
+  }
+
+  // Question ids must be unique across the whole exam
+  const questionIds = new Set<string>();
+  sections.forEach((section, sIdx) => {
+    section.questions.forEach((q, qIdx) => {
+      if (questionIds.has(q.id)) issues.push({ path: `content[${sIdx}].questions[${qIdx}].id`, message: `duplicate question id "${q.id}"` });
+      questionIds.add(q.id);
+    });
+  });
+
+  const answers: AnswerKey[] = [];
+  if (!Array.isArray(raw.answers)) {
+    issues.push({ path: "answers", message: "is missing or not an array" });
+  } else {
+    raw.answers.forEach((a: unknown, i: number) => {
+      const answer = validateAnswerKey(a, `answers[${i}]`, issues);
+      if (!answer) return;
+      if (!questionIds.has(answer.questionId)) {
+        // Only an error when the question was not dropped for other reasons
+        const existsInRaw = Array.isArray(raw.content) && raw.content.some((s: any) =>
+          Array.isArray(s?.questions) && s.questions.some((q: any) => q?.id === answer.questionId));
+        if (!existsInRaw) issues.push({ path: `answers[${i}].questionId`, message: `refers to unknown question "${answer.questionId}"` });
+        return;
+      }
+      answers.push(answer);
+    });
+  }
+
+  if (sections.length === 0) return { data: null, issues };
+
+  return {
+    data: {
+      examTitle: isNonEmptyString(raw.examTitle) ? raw.examTitle : "EXAM PAPER",
+      duration: isNonEmptyString(raw.duration) ? raw.duration : "",
+      content: sections,
+      answers,
+      ...(Array.isArray(raw.matrixMapping) ? { matrixMapping: raw.matrixMapping.filter((m: unknown) => typeof m === "string") } : {}),
+    },
+    issues,
+  };
+};
+
+/**
+ * Human readable list for prompts and error messages.
+ */
+export const formatIssues = (issues: ValidationIssue[], limit = 50): string =>
+  issues.slice(0, limit).map(i => `- ${i.path}: ${i.message}`).join("\n") +
+  (issues.length > limit ? `\n- ...and ${issues.length - limit} more` : "");
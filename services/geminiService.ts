@@ -1,15 +1,31 @@
 
-import { GoogleGenAI, Type, GenerateContentParameters } from "@google/genai";
-import { ExamConfig, ExamData, ProgressCallback } from "../types";
+import { AnswerKey, ExamConfig, ExamData, ExamSection, Question, ProgressCallback, PartialExamCallback, GenerationRun, RunStep, PromptTemplateId } from "../types";
+import {
+  validateExamData,
+  validateQuestion,
+  validateSection,
+  validateAnswerKey,
+  formatIssues,
+  ValidationIssue,
+  ValidationResult
+} from "./examValidator";
+import { IncrementalExamParser, PartialExam } from "./streamingJson";
+import { COGNITIVE_LEVELS } from "./matrixService";
+import { QUESTION_KINDS } from "./questionKinds";
+import { AiRequest, StreamResult, FallbackTarget, TokenUsage, createProvider, getFallbackChain } from "./aiProviders";
+import { AiError, AiErrorKind, cancelledError, classifyError, isCancelled } from "./aiErrors";
+import { getPromptTemplate, renderTemplate } from "./promptTemplates";
+import { getGradeProfile, getGradeProfiles, gradeProfileVariables } from "./gradeProfiles";
 
-const MODEL_PRIORITY = [
-  "gemini-3-flash-preview",
-  "gemini-3-pro-preview",
-  "gemini-2.5-flash",
-  "gemini-2.5-pro"
-];
+// Metadata used to build the "Ma trận đề" and "Bản đặc tả" from the finished exam
+const QUESTION_METADATA_RULE = `Every question MUST include "level" (one of: ${COGNITIVE_LEVELS.join(", ")}), "skill" (e.g. Pronunciation, Stress, Grammar, Vocabulary, Communication, Reading, Writing) and "objective" (short Vietnamese description of what the item tests).`;
 
+// Typed questions so the viewer, Word export and rubric can lay each kind out properly
+const QUESTION_KIND_RULE = `Every question MUST include "kind", one of:
+${QUESTION_KINDS.map(k => `    - "${k.id}": ${k.shape}`).join("\n")}`;
 
+// Inline markup understood by the viewer and the Word export (services/inlineMarkup)
+const INLINE_MARKUP_RULE = `Format text inside "text", "parts" and "answer" with inline markup only: <u>underline</u>, <b>bold</b>, <i>italic</i>, and "_____" for a blank. Pronunciation and stress items MUST underline the tested letters or syllable, e.g. "c<u>a</u>t". Do not add tags to "error_identification" items: their parts are underlined automatically.`;
 
 /**
  * Helper to clean and parse JSON, even if slightly malformed or truncated.
@@ -27,89 +43,169 @@ function safeParseJSON(text: string): any {
   }
 }
 
-async function callWithFallback(params: Omit<GenerateContentParameters, 'model'>): Promise<string> {
-  let lastError: any;
-  const userKey = localStorage.getItem('user_gemini_api_key');
-  const apiKey = userKey || process.env.API_KEY;
+const noProviderError = () =>
+  new AiError("auth", "No AI provider is set up. Please click Settings to add a Gemini API key or another provider.");
 
-  if (!apiKey) {
-    throw new Error("Missing API Key. Please click Settings to add your Google Gemini API Key.");
-  }
+const targetLabel = (target: FallbackTarget) => `${target.config.name} / ${target.model}`;
+
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 30000; // a longer hint means the quota is spent for now: move on instead
+const MAX_RETRIES: Partial<Record<AiErrorKind, number>> = { rate_limit: 3, network: 2, overloaded: 1 };
+
+/** Backoff wait that ends early, with a cancelled error, when the signal aborts. */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  }, { once: true });
+});
+
+/** Wait before retrying the same model, or null to move on to the next one. */
+const retryDelay = (error: AiError, attempt: number): number | null => {
+  if (attempt >= (MAX_RETRIES[error.kind] ?? 0)) return null;
+  const delay = error.retryAfterMs ?? BASE_DELAY_MS * 2 ** attempt;
+  return delay <= MAX_DELAY_MS ? delay : null;
+};
 
-  // Prioritize user's preferred model
-  const preferredModel = localStorage.getItem('preferred_model');
-  let modelsToTry = [...MODEL_PRIORITY];
-  if (preferredModel && modelsToTry.includes(preferredModel)) {
-    modelsToTry = [preferredModel, ...modelsToTry.filter(m => m !== preferredModel)];
+/**
+ * Runs one attempt per provider/model in the Settings fallback order. Rate limits,
+ * network errors and overloads are retried on the same model with exponential backoff
+ * first. An auth error skips the rest of that provider's models, since they share its
+ * key, and moves on to the next provider; only a cancel stops the chain early.
+ * Every attempt, failed or not, is added to `log` when given.
+ */
+async function withFallback<T extends { usage?: TokenUsage; truncated?: boolean }>(
+  attempt: (target: FallbackTarget) => Promise<T>,
+  signal?: AbortSignal,
+  log?: RunStep
+): Promise<T> {
+  const chain = getFallbackChain();
+  if (chain.length === 0) throw noProviderError();
+  const failures: AiError[] = [];
+  const rejectedProviders = new Set<string>();
+
+  for (const target of chain) {
+    if (rejectedProviders.has(target.config.id)) continue;
+    for (let retry = 0; ; retry++) {
+      if (signal?.aborted) throw cancelledError();
+      const started = Date.now();
+      try {
+        const result = await attempt(target);
+        log?.attempts.push({
+          target: targetLabel(target),
+          ok: true,
+          ...(result.truncated ? { truncated: true } : {}),
+          latencyMs: Date.now() - started,
+          ...result.usage,
+        });
+        return result;
+      } catch (err) {
+        const error = signal?.aborted ? cancelledError() : classifyError(err, targetLabel(target));
+        log?.attempts.push({
+          target: targetLabel(target),
+          ok: false,
+          error: `${error.statusLabel} – ${error.message}`,
+          latencyMs: Date.now() - started,
+        });
+        if (error.kind === "cancelled") throw error;
+        if (error.kind === "auth") {
+          console.warn(`${error.target} rejected the API key, trying the next provider...`);
+          rejectedProviders.add(target.config.id);
+          failures.push(error);
+          break;
+        }
+        const delay = retryDelay(error, retry);
+        if (delay === null) {
+          console.warn(`${error.target} failed (${error.statusLabel}), trying next...`, err);
+          failures.push(error);
+          break;
+        }
+        console.warn(`${error.target} failed (${error.statusLabel}), retrying in ${Math.round(delay / 1000)}s...`);
+        await sleep(delay, signal);
+      }
+    }
   }
 
-  for (const model of modelsToTry) {
+  if (failures.length === 1) throw failures[0];
+  // Every model with its status, so a quota problem is told apart from a bad prompt. A
+  // rejected key anywhere in the chain makes the whole failure an auth error, so the
+  // caller still sends the user to the keys whatever failed after it.
+  const reported = failures.find(f => f.kind === "auth") || failures[failures.length - 1];
+  throw new AiError(reported.kind, `All AI models failed:\n${failures.map(f => `• ${f.describe()}`).join("\n")}`, {
+    status: reported.status,
+    code: reported.code,
+    target: reported.target,
+  });
+}
+
+async function callWithFallback(request: AiRequest, log?: RunStep): Promise<string> {
+  const { text } = await withFallback(async target => {
+    const result = await createProvider(target.config).generate(target.model, request);
+    if (!result.text) throw new AiError("invalid_output", "Empty response from AI");
+    if (request.json && tryParseJSON(result.text) === null) throw new AiError("invalid_output", "The response was not valid JSON");
+    return result;
+  }, request.signal, log);
+  return text;
+}
+
+/**
+ * Streaming variant of callWithFallback. Falls back to the next model only while
+ * nothing has been received; once text has arrived, a failure returns what was
+ * streamed so far marked as truncated, so the caller can continue from there.
+ */
+async function callWithFallbackStream(request: AiRequest, onChunk?: (chunk: string) => void, log?: RunStep): Promise<StreamResult> {
+  return withFallback(async target => {
+    let text = "";
     try {
-      const ai = new GoogleGenAI({ apiKey });
-      const response = await ai.models.generateContent({ ...params, model });
-      if (response.text) return response.text;
-      throw new Error("Empty response from AI");
-    } catch (err: any) {
-      console.warn(`Model ${model} failed, trying next...`, err);
-      lastError = err;
-
-      // If error is 429 or 403, we should definitely try next model.
-      // But if it's 401 (Invalid Key), we might want to stop? 
-      // For now, consistent with instructions to just retry/show error at end.
+      const { truncated, usage } = await createProvider(target.config).generateStream(target.model, request, piece => {
+        text += piece;
+        onChunk?.(piece);
+      });
+      if (!text) throw new AiError("invalid_output", "Empty response from AI");
+      return { text, truncated, usage };
+    } catch (err) {
+      if (!text || request.signal?.aborted) throw err;
+      console.warn(`${targetLabel(target)} stream broke after ${text.length} chars, keeping partial output.`, err);
+      return { text, truncated: true };
     }
-  }
+  }, request.signal, log);
+}
 
-  // Extract raw error message if possible
-  const errorMessage = lastError?.message || JSON.stringify(lastError);
-  throw new Error(`All AI models failed. Last error: ${errorMessage}`);
-}
-
-const DIFFICULTY_RULES = {
-  'Primary': `
-    **For PRIMARY (Grade 3-5):**
-    - Vocabulary: Basic 500-1000 common words
-    - Grammar: Simple present, present continuous, basic sentence structures
-    - Reading passages: 80-150 words, simple topics (family, school, animals, daily activities)
-    - Question types: Multiple choice, fill-in-the-blank, picture matching
-    - Language complexity: A1-A2 CEFR level
-    - Sentence length: 5-10 words average
-    - Instructions: Simple and clear Vietnamese translations provided
-    
-    Example differentiation:
-    - Grade 3: "The cat is on the table." (Simple present, basic vocabulary)
-  `,
-  'Middle School': `
-    **For MIDDLE SCHOOL (Grade 6-9):**
-    - Vocabulary: 1500-2500 words, topic-based vocabulary
-    - Grammar: All basic tenses, conditionals, passive voice, reported speech
-    - Reading passages: 200-300 words, varied topics (culture, environment, technology basics)
-    - Question types: Multiple choice, gap-filling, short answers, true/false
-    - Language complexity: A2-B1 CEFR level
-    - Sentence length: 10-15 words average
-    - Mix of concrete and some abstract concepts
-    
-    Example differentiation:
-    - Grade 7: "If I had more time, I would visit my grandparents." (Second conditional, family relationships)
-  `,
-  'High School': `
-    **For HIGH SCHOOL (Grade 10-12):**
-    - Vocabulary: 3000-5000 words, academic and specialized vocabulary
-    - Grammar: Complex structures, inversion, cleft sentences, advanced conditionals
-    - Reading passages: 350-500 words, academic topics (science, social issues, literature analysis)
-    - Question types: Multiple choice, long answers, essay-style, inference questions
-    - Language complexity: B1-B2 CEFR level
-    - Sentence length: 15-20 words average
-    - Abstract thinking and critical analysis required
-    
-    Example differentiation:
-    - Grade 11: "Despite numerous challenges, the environmental conservation movement has gained significant momentum globally." (Complex sentence, academic vocabulary)
-  `
+/** Runs one named step of a generation and records its model attempts and latency. */
+type StepLogger = <T>(name: string, call: (log: RunStep) => Promise<T>) => Promise<T>;
+
+const copyRun = (run: GenerationRun): GenerationRun => ({
+  ...run,
+  steps: run.steps.map(step => ({ ...step, attempts: [...step.attempts] })),
+});
+
+const DIFFICULTY_TEMPLATES: Record<string, PromptTemplateId> = {
+  'Primary': "difficultyPrimary",
+  'Middle School': "difficultyMiddle",
+  'High School': "difficultyHigh",
+};
+
+const formVariables = (config: ExamConfig): Record<string, string> => {
+  // Unknown grades (e.g. an exam saved before a profile was renamed) fall back to the stage's first grade
+  const profile = getGradeProfile(config.gradeLevel)
+    || getGradeProfiles().find(p => p.stage === config.level)
+    || getGradeProfiles()[0];
+  return {
+    gradeLevel: config.gradeLevel,
+    level: config.level,
+    examType: config.examType,
+    topic: config.topic,
+    trendingTopic: config.trendingTopic,
+    ...gradeProfileVariables(profile),
+  };
 };
 
-export const generateExam = async (config: ExamConfig, onProgress?: ProgressCallback): Promise<ExamData> => {
-  const difficultyRule = DIFFICULTY_RULES[config.level as keyof typeof DIFFICULTY_RULES] || DIFFICULTY_RULES['Middle School'];
+const difficultyRule = (config: ExamConfig): string =>
+  renderTemplate(getPromptTemplate(DIFFICULTY_TEMPLATES[config.level] || "difficultyMiddle"), formVariables(config));
 
-  const systemInstruction = `
+function buildSystemInstruction(config: ExamConfig): string {
+  return `
     When user selects a grade level, you MUST:
     1. Analyze the selected grade (${config.gradeLevel})
     2. Apply the appropriate difficulty parameters below
@@ -118,81 +214,446 @@ export const generateExam = async (config: ExamConfig, onProgress?: ProgressCall
     5. Adjust vocabulary, grammar structures, and cognitive demands accordingly
     6. Ensure reading passages and questions are neither too easy nor too difficult for the target grade
     
-    ${difficultyRule}
+    ${difficultyRule(config)}
   `;
+}
 
-  // STEP 1: STRUCTURAL ANALYSIS
-  onProgress?.("Step 1/2: Analyzing Matrix & Training Data...");
+/**
+ * Values for the {{placeholders}} of the step prompts. Training data is pruned to avoid
+ * context overflow.
+ */
+function promptVariables(config: ExamConfig, plan: string): Record<string, string> {
+  return {
+    ...formVariables(config),
+    difficultyRule: difficultyRule(config),
+    systemInstruction: buildSystemInstruction(config),
+    structure: config.structureContent || "Standard GDPT 2018",
+    matrix: config.matrixContent?.slice(0, 5000) || "",
+    spec: config.specificationContent?.slice(0, 5000) || "",
+    reference: config.referenceContent?.slice(0, 15000) || "None",
+    plan,
+    metadataRule: QUESTION_METADATA_RULE,
+    kindRule: QUESTION_KIND_RULE,
+    markupRule: INLINE_MARKUP_RULE,
+  };
+}
 
-  // Prune training data to avoid context overflow
-  const prunedRef = config.referenceContent?.slice(0, 15000) || "None";
-  const prunedMatrix = config.matrixContent?.slice(0, 5000);
-  const prunedSpec = config.specificationContent?.slice(0, 5000);
+/** A template as it would be sent for this form, before step 1 has written the plan. */
+export const previewPrompt = (id: PromptTemplateId, text: string, config: ExamConfig): string =>
+  renderTemplate(text, Object.values(DIFFICULTY_TEMPLATES).includes(id)
+    ? formVariables(config)
+    : promptVariables(config, "[plan written in step 1]"));
 
-  const step1Prompt = `
-    Role: Senior Assessment Specialist.
-    Analyze these requirements and create a logic-only blueprint.
-    
-    STRICT DIFFICULTY CONTROL:
-    ${systemInstruction}
+/** What a generation run has produced so far, so a failed or cancelled run can resume from there. */
+export interface GenerationCheckpoint {
+  plan: string;
+  /** Sections and answers received in step 2; missing when step 2 has not produced any. */
+  partial?: PartialExam;
+  /** Run log up to the checkpoint, continued when resuming. */
+  run?: GenerationRun;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  resumeFrom?: GenerationCheckpoint;
+  onCheckpoint?: (checkpoint: GenerationCheckpoint) => void;
+  /** Called with the run log after every step. */
+  onRun?: (run: GenerationRun) => void;
+}
 
-    Target Structure: ${config.structureContent || "Standard GDPT 2018"}
-    Matrix: ${prunedMatrix}
-    Spec: ${prunedSpec}
-    Training Context (Excerpt): ${prunedRef}
+export const generateExam = async (
+  config: ExamConfig,
+  onProgress?: ProgressCallback,
+  onPartial?: PartialExamCallback,
+  { signal, resumeFrom, onCheckpoint, onRun }: GenerateOptions = {}
+): Promise<ExamData> => {
+  const systemInstruction = buildSystemInstruction(config);
+  const run: GenerationRun = resumeFrom?.run ? copyRun(resumeFrom.run) : { startedAt: Date.now(), steps: [] };
+  const step: StepLogger = async (name, call) => {
+    const log: RunStep = { name, attempts: [], latencyMs: 0 };
+    run.steps.push(log);
+    const started = Date.now();
+    try {
+      return await call(log);
+    } finally {
+      log.latencyMs = Date.now() - started;
+      onRun?.(copyRun(run));
+    }
+  };
+  const saveCheckpoint = (plan: string, partial?: PartialExam) => onCheckpoint?.({
+    plan,
+    // The parser keeps appending to its arrays, so store a copy
+    partial: partial && { ...partial, sections: [...partial.sections], answers: [...partial.answers] },
+    run: copyRun(run),
+  });
 
-    Task:
-    1. Extract number of questions per section.
-    2. Define grammar/vocab focus per section.
-    3. Generate a High-Quality Reading Passage (concise, ~250 words) appropriate for ${config.gradeLevel}.
-    4. Provide a structural plan. No full JSON yet.
-  `;
+  // STEP 1: STRUCTURAL ANALYSIS
+  onProgress?.(resumeFrom ? "Step 1/2: Using the saved plan..." : "Step 1/2: Analyzing Matrix & Training Data...");
 
-  const plan = await callWithFallback({ contents: step1Prompt });
+  const step1Prompt = renderTemplate(getPromptTemplate("step1"), promptVariables(config, ""));
+
+  const plan = resumeFrom?.plan
+    || (await step("Step 1: Plan", log => callWithFallbackStream({ contents: step1Prompt, signal }, undefined, log))).text;
+  if (!resumeFrom) saveCheckpoint(plan);
 
   // STEP 2: FULL CONTENT GENERATION
   onProgress?.("Step 2/2: Generating Exam Content (Be patient)...");
 
-  const step2Prompt = `
+  const step2Prompt = renderTemplate(getPromptTemplate("step2"), promptVariables(config, plan));
+
+  // Stream the JSON so completed sections can be shown while the rest is generated
+  let shownSections = 0;
+  const reportPartial = (partial: PartialExam) => {
+    if (partial.sections.length === shownSections) return;
+    shownSections = partial.sections.length;
+    onPartial?.(toExamData(partial));
+    saveCheckpoint(plan, partial);
+  };
+
+  let partial = resumeFrom?.partial;
+  if (partial && partial.sections.length > 0) {
+    onProgress?.(`Step 2/2: Resuming after ${partial.sections.length} saved section(s)...`);
+    shownSections = partial.sections.length;
+    onPartial?.(toExamData(partial));
+  } else {
+    const parser = new IncrementalExamParser();
+    // No schema here to give the model more flexibility to be concise; the structure is enforced via instructions
+    const { text: finalResponse, truncated } = await step("Step 2: Content", log => callWithFallbackStream({
+      contents: step2Prompt,
+      json: true,
+      signal,
+    }, chunk => reportPartial(parser.push(chunk)), log));
+    partial = parser.partial;
+    saveCheckpoint(plan, partial);
+
+    if (!truncated) {
+      const complete = tryParseJSON(finalResponse);
+      if (complete) return validateWithRepair(complete, onProgress, signal, step);
+    }
+  }
+
+  // Output was cut off: keep the completed sections and continue from the last one
+  for (let attempt = 1; attempt <= MAX_CONTINUATIONS && !(partial.contentClosed && partial.answersClosed); attempt++) {
+    if (partial.sections.length === 0) break;
+    onProgress?.(`Step 2/2: Output cut off after ${partial.sections.length} section(s). Continuing (${attempt}/${MAX_CONTINUATIONS})...`);
+
+    const continuationParser = new IncrementalExamParser();
+    const base = partial;
+    try {
+      await step(`Step 2: Continuation ${attempt}`, log => callWithFallbackStream({
+        contents: buildContinuationPrompt(plan, systemInstruction, base),
+        json: true,
+        signal,
+      }, chunk => {
+        partial = mergePartial(base, continuationParser.push(chunk));
+        reportPartial(partial);
+      }, log));
+      saveCheckpoint(plan, partial);
+    } catch (err) {
+      if (isCancelled(err)) throw err;
+      console.warn("Continuation failed, keeping the sections received so far.", err);
+      break;
+    }
+  }
+
+  if (partial.sections.length === 0) {
+    throw new Error("The exam was too large for the AI to finish. Try uploading fewer training files or shortening the Matrix/Spec.");
+  }
+  if (!(partial.contentClosed && partial.answersClosed)) {
+    console.warn("Exam is still incomplete after continuations, keeping the sections received so far.");
+  }
+  return validateWithRepair(toExamData(partial), onProgress, signal, step);
+};
+
+const MAX_CONTINUATIONS = 3;
+
+function tryParseJSON(text: string): any | null {
+  try {
+    return JSON.parse(text.replace(/^```json/i, "").replace(/```$/i, "").trim());
+  } catch {
+    return null;
+  }
+}
+
+function toExamData(partial: PartialExam): ExamData {
+  return {
+    examTitle: partial.examTitle || "",
+    duration: partial.duration || "",
+    content: partial.sections,
+    answers: partial.answers,
+  };
+}
+
+const sectionKey = (section: ExamSection) => section.section.trim().toLowerCase();
+
+/**
+ * Adds what a continuation call produced to the sections and answers received before.
+ * Sections are matched by title and answers by question id, so anything the model
+ * repeats from the previous output is kept once, in its original place.
+ */
+function mergePartial(base: PartialExam, next: PartialExam): PartialExam {
+  const knownSections = new Set(base.sections.map(sectionKey));
+  const knownAnswers = new Set(base.answers.map(a => a.questionId));
+  return {
+    examTitle: base.examTitle || next.examTitle,
+    duration: base.duration || next.duration,
+    sections: base.contentClosed ? base.sections : [...base.sections, ...next.sections.filter(s => !knownSections.has(sectionKey(s)))],
+    answers: [...base.answers, ...next.answers.filter(a => !knownAnswers.has(a.questionId))],
+    contentClosed: base.contentClosed || next.contentClosed,
+    answersClosed: next.answersClosed,
+  };
+}
+
+function buildContinuationPrompt(plan: string, systemInstruction: string, partial: PartialExam): string {
+  const answered = new Set(partial.answers.map(a => a.questionId));
+  const unanswered = partial.sections.flatMap(s => s.questions || []).map(q => q.id).filter(id => !answered.has(id));
+
+  return `
     Role: Professional English Teacher.
-    Create the FINAL EXAM JSON based on this plan: ${plan}
-    
-    CRITICAL DIFFICULTY ENFORCEMENT for ${config.gradeLevel}:
+    You were writing the FINAL EXAM JSON for this plan: ${plan}
+
     ${systemInstruction}
-    
-    CRITICAL RULES for JSON Size Efficiency:
-    1. DO NOT repeat the reading passage or long descriptions inside individual 'questions'. 
-    2. Put shared text ONLY in the section's 'text' field.
-    3. Keep question texts concise.
-    4. Ensure the JSON is valid and complete.
 
-    Exam Metadata: ${config.level} - ${config.gradeLevel}, Time: ${config.examType}.
-    Formatting: Use Vietnamese headers ("I. PHẦN TRẮC NGHIỆM").
+    The previous output was cut off. These sections are ALREADY COMPLETE (do NOT repeat them):
+    ${JSON.stringify(partial.sections)}
+
+    Task:
+    ${partial.contentClosed
+      ? "1. All sections are complete. Return an empty \"content\" array."
+      : "1. Continue with the sections that come AFTER the last complete section above. Keep the question numbering going."}
+    2. Return answer keys for these existing questions: ${unanswered.join(", ") || "none"}, plus every new question.
+    3. Keep the JSON concise, valid and complete.
+    4. ${QUESTION_METADATA_RULE}
+    5. ${QUESTION_KIND_RULE}
+    6. ${INLINE_MARKUP_RULE}
 
     Return ONLY JSON with this structure:
     {
-      "examTitle": "string",
-      "duration": "string",
-      "content": [
-        {
-          "section": "string",
-          "text": "string (shared passage here)",
-          "questions": [{ "id": "Question 1", "text": "concise question", "points": 0.2, "parts": [{"label": "A.", "content": "..."}] }]
-        }
-      ],
-      "answers": [{ "questionId": "Question 1", "answer": "A", "pointsDetail": "0.2 pts" }]
+      "content": [{ "section": "string", "text": "string", "questions": [{ "id": "Question N", "kind": "multiple_choice", "text": "...", "points": 0.2, "level": "Nhận biết", "skill": "Grammar", "objective": "...", "parts": [{"label": "A.", "content": "..."}] }] }],
+      "answers": [{ "questionId": "Question N", "answer": "A", "pointsDetail": "0.2 pts" }]
     }
   `;
+}
+
+/**
+ * Validates the exam JSON and, if problems are found, asks the model once to fix them.
+ * Falls back to the valid sections of the best attempt when the repair is not clean.
+ */
+async function validateWithRepair(raw: unknown, onProgress?: ProgressCallback, signal?: AbortSignal, step?: StepLogger): Promise<ExamData> {
+  const first = validateExamData(raw);
+  if (first.issues.length === 0 && first.data) return first.data;
+
+  console.warn("Exam JSON failed validation:", first.issues);
+  onProgress?.(`Step 2/2: Repairing ${first.issues.length} problem(s) in the exam...`);
+
+  let best: ValidationResult = first;
+  try {
+    const repairPrompt = `
+      Role: JSON Quality Reviewer.
+      The exam JSON below does not match the required structure. Fix ONLY these problems:
+      ${formatIssues(first.issues)}
+
+      Rules:
+      1. "points" must be a number (e.g. 0.2), never a string.
+      2. Every section must have a "questions" array.
+      3. Every "answers[].questionId" must match an existing question "id".
+      4. Keep all valid content unchanged. Return the COMPLETE corrected JSON only.
+
+      JSON:
+      ${JSON.stringify(raw)}
+    `;
+
+    const request: AiRequest = { contents: repairPrompt, json: true, signal };
+    const repaired = step
+      ? await step("Repair", log => callWithFallback(request, log))
+      : await callWithFallback(request);
+    const second = validateExamData(safeParseJSON(repaired));
+    if (second.issues.length === 0 && second.data) return second.data;
+    if (second.data && second.issues.length < first.issues.length) best = second;
+  } catch (err) {
+    if (isCancelled(err)) throw err;
+    console.warn("Repair pass failed, keeping valid sections only.", err);
+  }
+
+  if (!best.data) {
+    throw new Error(`The AI returned an invalid exam structure:\n${formatIssues(best.issues, 5)}`);
+  }
+  return best.data;
+}
+
+export interface RegeneratedQuestion {
+  question: Question;
+  answer: AnswerKey;
+}
+
+export interface RegeneratedSection {
+  section: ExamSection;
+  answers: AnswerKey[];
+}
+
+function buildRegenerateContext(exam: ExamData, config?: ExamConfig): string {
+  return `
+    ${config ? `Target: ${config.level} - ${config.gradeLevel}.\n${buildSystemInstruction(config)}` : ""}
+
+    The full exam (for context, avoid duplicating existing items):
+    ${JSON.stringify({ examTitle: exam.examTitle, content: exam.content })}
+  `;
+}
+
+/**
+ * Regenerates one question using the rest of the exam as context.
+ * The question keeps its id so numbering and answer keys stay aligned.
+ */
+export const regenerateQuestion = async (
+  exam: ExamData,
+  sIdx: number,
+  qIdx: number,
+  instruction: string,
+  config?: ExamConfig,
+  signal?: AbortSignal
+): Promise<RegeneratedQuestion> => {
+  const section = exam.content[sIdx];
+  const original = section.questions[qIdx];
+
+  const prompt = `
+    Role: Professional English Teacher.
+    Rewrite ONE question of an existing exam.
+    ${buildRegenerateContext(exam, config)}
+
+    Question to replace (section "${section.section}"):
+    ${JSON.stringify(original)}
+    Current answer key: ${JSON.stringify(exam.answers.find(a => a.questionId === original.id) || null)}
+
+    Teacher's instruction: ${instruction.trim() || "Write a better question of the same type and difficulty."}
 
-  // Use a higher model if available for complex tasks
-  const finalResponse = await callWithFallback({
-    contents: step2Prompt,
-    config: {
-      responseMimeType: "application/json",
-      // We don't define schema here to give model more flexibility to be concise, 
-      // but we enforce it via instructions.
+    Rules:
+    1. Keep "id" exactly "${original.id}" and keep the same question format (same number of options).
+    2. The question must fit the section's shared passage if there is one.
+    3. "points" must be a number.
+    4. ${QUESTION_KIND_RULE} Keep the same kind unless the teacher asks for another.
+    5. ${INLINE_MARKUP_RULE}
+
+    Return ONLY JSON:
+    {
+      "question": { "id": "${original.id}", "kind": "${original.kind || "multiple_choice"}", "text": "...", "points": ${original.points ?? 0.2}, "level": "${original.level || "Thông hiểu"}", "skill": "${original.skill || "Grammar"}", "objective": "...", "parts": [{"label": "A.", "content": "..."}] },
+      "answer": { "questionId": "${original.id}", "answer": "A", "pointsDetail": "${original.points ?? 0.2} pts" }
+    }
+  `;
+
+  const raw = safeParseJSON(await callWithFallback({ contents: prompt, json: true, signal }));
+  const issues: ValidationIssue[] = [];
+  const question = validateQuestion({ ...raw?.question, id: original.id }, "question", issues);
+  // Without a new key the old one would stay on the rewritten question and mark it wrongly
+  const answer = raw?.answer ? validateAnswerKey({ ...raw.answer, questionId: original.id }, "answer", issues) : null;
+  if (!raw?.answer) issues.push({ path: "answer", message: "missing answer key for the new question" });
+
+  if (!question || !answer || issues.length > 0) {
+    throw new Error(`The AI returned an invalid question:\n${formatIssues(issues, 5)}`);
+  }
+  return { question, answer };
+};
+
+/**
+ * Regenerates a whole section (passage and questions) using the rest of the exam as context.
+ * Question ids are forced back onto the original numbering.
+ */
+export const regenerateSection = async (
+  exam: ExamData,
+  sIdx: number,
+  instruction: string,
+  config?: ExamConfig,
+  signal?: AbortSignal
+): Promise<RegeneratedSection> => {
+  const original = exam.content[sIdx];
+  const ids = original.questions.map(q => q.id);
+
+  const prompt = `
+    Role: Professional English Teacher.
+    Rewrite ONE section of an existing exam.
+    ${buildRegenerateContext(exam, config)}
+
+    Section to replace:
+    ${JSON.stringify(original)}
+
+    Teacher's instruction: ${instruction.trim() || "Write a better section of the same type and difficulty."}
+
+    Rules:
+    1. Keep the section title format and use these question ids in order: ${ids.join(", ") || "Question 1"}.
+    2. Put any shared passage ONLY in the section's "text" field.
+    3. "points" must be a number.
+    4. ${QUESTION_KIND_RULE}
+    5. ${INLINE_MARKUP_RULE}
+
+    Return ONLY JSON:
+    {
+      "section": { "section": "string", "text": "string", "questions": [{ "id": "...", "kind": "multiple_choice", "text": "...", "points": 0.2, "level": "Nhận biết", "skill": "Grammar", "objective": "...", "parts": [{"label": "A.", "content": "..."}] }] },
+      "answers": [{ "questionId": "...", "answer": "A", "pointsDetail": "0.2 pts" }]
     }
+  `;
+
+  const raw = safeParseJSON(await callWithFallback({ contents: prompt, json: true, signal }));
+  const issues: ValidationIssue[] = [];
+  const section = validateSection(raw?.section, "section", issues);
+  if (!section || issues.length > 0) {
+    throw new Error(`The AI returned an invalid section:\n${formatIssues(issues, 5)}`);
+  }
+
+  // Re-map whatever ids the model used onto the original slots
+  const idMap = new Map<string, string>();
+  const questions = section.questions.map((q, i) => {
+    const id = ids[i] ?? `${q.id}`;
+    idMap.set(q.id, id);
+    return { ...q, id };
   });
 
-  return safeParseJSON(finalResponse) as ExamData;
+  const answers: AnswerKey[] = [];
+  (Array.isArray(raw.answers) ? raw.answers : []).forEach((a: unknown, i: number) => {
+    const answer = validateAnswerKey(a, `answers[${i}]`, []);
+    if (answer && idMap.has(answer.questionId)) answers.push({ ...answer, questionId: idMap.get(answer.questionId)! });
+  });
+
+  return { section: { ...section, questions }, answers };
+};
+
+/**
+ * AI fallback for the document importer when the rule-based parser cannot read the layout.
+ * The model restructures the text only; wording, options and keys are kept as written.
+ */
+export const importExamWithAI = async (
+  documentText: string,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<ExamData> => {
+  onProgress?.("Step 1/2: Reading the document with AI...");
+  const prompt = `
+    Role: Exam Digitizer.
+    Convert the English exam document below into JSON. Do NOT write new questions and do NOT change
+    the wording of questions, passages or options. Only restructure what is there.
+
+    Rules:
+    1. Each heading or instruction ("I. PHẦN TRẮC NGHIỆM", "Mark the letter A, B, C or D...") starts a section; put it in "section".
+    2. A shared reading or cloze passage goes in the section's "text".
+    3. Question ids are "Question 1", "Question 2", ... numbered through the whole exam.
+    4. Multiple choice options go in "parts" with labels "A.", "B.", "C.", "D.".
+    5. Take answers from the document's answer key if there is one; otherwise leave "answers" for that question out.
+    6. "points" must be a number. Use the document's points if given, otherwise split 10 points evenly.
+    7. ${QUESTION_METADATA_RULE}
+    8. ${QUESTION_KIND_RULE}
+    9. ${INLINE_MARKUP_RULE} Keep markup the document already has, and do not guess underlines it does not show.
+
+    Return ONLY JSON:
+    {
+      "examTitle": "...",
+      "duration": "45 minutes",
+      "content": [{ "section": "...", "text": "...", "questions": [{ "id": "Question 1", "kind": "multiple_choice", "text": "...", "points": 0.25, "level": "...", "skill": "...", "objective": "...", "parts": [{"label": "A.", "content": "..."}] }] }],
+      "answers": [{ "questionId": "Question 1", "answer": "A", "pointsDetail": "0.25 pts" }]
+    }
+
+    DOCUMENT:
+    ${documentText.slice(0, 60000)}
+  `;
+
+  const raw = safeParseJSON(await callWithFallback({ contents: prompt, json: true, signal }));
+  onProgress?.("Step 2/2: Checking the imported exam...");
+  return validateWithRepair(raw, onProgress, signal);
 };
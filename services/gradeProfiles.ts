@@ -0,0 +1,179 @@
+import { GradeProfile, GradeProfileOverrides, QuestionKind, SchoolStage, StageOptions } from "../types";
+import { QUESTION_KINDS } from "./questionKinds";
+
+/*
+ * One registry for what each grade's exam looks like. The exam form (grades, badge,
+ * durations, topics), the difficulty rules in the prompts and the CEFR tag of banked
+ * questions all read from here, after the school's overrides are applied.
+ */
+
+export const SCHOOL_STAGES: SchoolStage[] = ["Primary", "Middle School", "High School"];
+
+const profile = (
+  grade: string,
+  stage: SchoolStage,
+  cefr: string,
+  label: string,
+  summary: string,
+  stars: number,
+  details: Pick<GradeProfile, "vocabularySize" | "grammar" | "passageWords" | "sentenceWords" | "questionKinds">
+): GradeProfile => ({ grade, stage, cefr, label, summary, stars, ...details });
+
+const PRIMARY_KINDS: QuestionKind[] = ["multiple_choice", "gap_fill", "matching"];
+const MIDDLE_KINDS: QuestionKind[] = ["multiple_choice", "error_identification", "gap_fill", "true_false", "word_form", "sentence_transformation"];
+const HIGH_KINDS: QuestionKind[] = ["multiple_choice", "error_identification", "gap_fill", "true_false", "sentence_transformation", "open_writing"];
+
+export const DEFAULT_GRADE_PROFILES: GradeProfile[] = [
+  profile("Grade 3", "Primary", "Pre-A1", "Starter (A1)", "Basic vocab (500+), simple sentences", 1, {
+    vocabularySize: [300, 500],
+    grammar: ["to be and have got", "simple present", "can for ability", "this/that, these/those"],
+    passageWords: [50, 80],
+    sentenceWords: [4, 7],
+    questionKinds: PRIMARY_KINDS,
+  }),
+  profile("Grade 4", "Primary", "A1", "Movers (A1+)", "Daily topics, present tenses", 1, {
+    vocabularySize: [500, 800],
+    grammar: ["simple present", "present continuous", "there is/there are", "prepositions of place", "can/can't"],
+    passageWords: [60, 100],
+    sentenceWords: [5, 8],
+    questionKinds: [...PRIMARY_KINDS, "true_false"],
+  }),
+  profile("Grade 5", "Primary", "A1", "Flyers (A2)", "Expanded vocab, simple stories", 2, {
+    vocabularySize: [800, 1000],
+    grammar: ["simple present", "present continuous", "simple past", "future with will and be going to", "comparatives"],
+    passageWords: [80, 150],
+    sentenceWords: [6, 10],
+    questionKinds: [...PRIMARY_KINDS, "true_false", "sentence_ordering"],
+  }),
+
+  profile("Grade 6", "Middle School", "A2", "Ket (A2)", "Topic vocab (1500+), basic grammar", 2, {
+    vocabularySize: [1200, 1500],
+    grammar: ["present simple and continuous", "past simple", "future simple", "comparatives and superlatives", "should/must"],
+    passageWords: [150, 200],
+    sentenceWords: [8, 12],
+    questionKinds: ["multiple_choice", "gap_fill", "true_false", "matching", "word_form", "sentence_ordering"],
+  }),
+  profile("Grade 7", "Middle School", "A2", "Pet (A2/B1)", "Conditionals, diverse topics", 3, {
+    vocabularySize: [1500, 1800],
+    grammar: ["present perfect", "first conditional", "quantifiers", "too/enough", "used to"],
+    passageWords: [180, 230],
+    sentenceWords: [9, 13],
+    questionKinds: MIDDLE_KINDS,
+  }),
+  profile("Grade 8", "Middle School", "A2", "Pet (B1)", "Passive voice, reported speech", 3, {
+    vocabularySize: [1800, 2200],
+    grammar: ["passive voice", "reported speech", "second conditional", "gerunds and infinitives", "relative clauses with who/which/that"],
+    passageWords: [200, 260],
+    sentenceWords: [10, 14],
+    questionKinds: [...MIDDLE_KINDS, "open_writing"],
+  }),
+  profile("Grade 9", "Middle School", "B1", "FCE (B1+)", "Complex structures, abstract concepts", 4, {
+    vocabularySize: [2200, 2500],
+    grammar: ["all basic tenses", "conditionals type 1-2", "wish clauses", "relative clauses", "reported speech", "passive voice with modals"],
+    passageWords: [230, 300],
+    sentenceWords: [12, 15],
+    questionKinds: [...MIDDLE_KINDS, "open_writing"],
+  }),
+  profile("Grade 10 Entrance", "Middle School", "B1", "Entrance Exam", "High difficulty for 9th graders", 4, {
+    vocabularySize: [2500, 3000],
+    grammar: ["all basic tenses", "conditionals type 1-2", "wish clauses", "relative clauses", "reported speech", "passive voice", "phrasal verbs and collocations"],
+    passageWords: [250, 320],
+    sentenceWords: [12, 16],
+    questionKinds: ["multiple_choice", "error_identification", "gap_fill", "word_form", "sentence_transformation", "sentence_ordering", "open_writing"],
+  }),
+
+  profile("Grade 10", "High School", "B1", "Standard (B1)", "Academic vocab (3000+), social issues", 4, {
+    vocabularySize: [3000, 3500],
+    grammar: ["present perfect vs past simple", "passive voice", "relative clauses", "conditionals type 1-3", "gerunds and infinitives"],
+    passageWords: [280, 350],
+    sentenceWords: [13, 17],
+    questionKinds: HIGH_KINDS,
+  }),
+  profile("Grade 11", "High School", "B1", "Advanced (B2)", "Inversion, advanced conditionals", 5, {
+    vocabularySize: [3500, 4000],
+    grammar: ["inversion", "mixed conditionals", "participle clauses", "cleft sentences", "reporting verbs with gerunds"],
+    passageWords: [320, 420],
+    sentenceWords: [15, 19],
+    questionKinds: [...HIGH_KINDS, "sentence_ordering"],
+  }),
+  profile("Grade 12", "High School", "B2", "Proficiency (B2)", "Literature analysis, specialized topics", 5, {
+    vocabularySize: [4000, 5000],
+    grammar: ["inversion", "cleft sentences", "advanced conditionals", "subjunctive", "reduced relative clauses"],
+    passageWords: [350, 450],
+    sentenceWords: [15, 20],
+    questionKinds: [...HIGH_KINDS, "sentence_ordering"],
+  }),
+  profile("National High School Exam", "High School", "B2", "University Entrance", "Maximum academic complexity", 5, {
+    vocabularySize: [4000, 5000],
+    grammar: ["inversion", "cleft sentences", "advanced conditionals", "subjunctive", "reduced relative clauses", "collocations and idioms"],
+    passageWords: [350, 500],
+    sentenceWords: [16, 20],
+    questionKinds: ["multiple_choice", "error_identification", "gap_fill", "sentence_ordering"],
+  }),
+];
+
+export const DEFAULT_STAGE_OPTIONS: Record<SchoolStage, StageOptions> = {
+  "Primary": {
+    times: ["45 minutes", "60 minutes"],
+    trends: ["AI Generated", "Greetings & Introductions", "Family & Friends", "School & Classroom", "Animals & Pets", "Food & Drinks", "Hobbies & Sports", "Weather & Seasons"],
+  },
+  "Middle School": {
+    times: ["45 minutes", "60 minutes", "90 minutes"],
+    trends: ["AI Generated", "Personal Information", "Education & School Life", "Environment & Nature", "Entertainment & Media", "Health & Lifestyle", "Technology & Communication"],
+  },
+  "High School": {
+    times: ["60 minutes (National)", "90 minutes"],
+    trends: ["AI Generated", "Education & Career", "Science & Technology", "Global Issues & Environment", "Cultural Diversity", "Economics & Business", "Social Problems"],
+  },
+};
+
+// --- School overrides ---
+
+const OVERRIDES_KEY = "grade_profile_overrides";
+
+export const EMPTY_OVERRIDES: GradeProfileOverrides = { grades: {}, stages: {} };
+
+export const loadGradeOverrides = (): GradeProfileOverrides => {
+  try {
+    const stored = localStorage.getItem(OVERRIDES_KEY);
+    return stored ? { ...EMPTY_OVERRIDES, ...JSON.parse(stored) } : EMPTY_OVERRIDES;
+  } catch {
+    return EMPTY_OVERRIDES;
+  }
+};
+
+export const saveGradeOverrides = (overrides: GradeProfileOverrides) => {
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+};
+
+/** Every grade with the school's overrides applied, in form order. */
+export const getGradeProfiles = (overrides = loadGradeOverrides()): GradeProfile[] =>
+  DEFAULT_GRADE_PROFILES.map(p => ({ ...p, ...overrides.grades[p.grade], grade: p.grade, stage: p.stage }));
+
+export const getGradeProfile = (grade: string, overrides = loadGradeOverrides()): GradeProfile | undefined =>
+  getGradeProfiles(overrides).find(p => p.grade === grade);
+
+/** Durations and topics for a stage; an emptied list falls back to the built-in one. */
+export const getStageOptions = (stage: SchoolStage, overrides = loadGradeOverrides()): StageOptions => {
+  const custom = overrides.stages[stage] || {};
+  return {
+    times: custom.times?.length ? custom.times : DEFAULT_STAGE_OPTIONS[stage].times,
+    trends: custom.trends?.length ? custom.trends : DEFAULT_STAGE_OPTIONS[stage].trends,
+  };
+};
+
+// --- Prompt wording ---
+
+const range = ([min, max]: [number, number]) => (min === max ? `${min}` : `${min}-${max}`);
+
+/** The grade's limits as {{placeholders}} for the difficulty prompt templates. */
+export const gradeProfileVariables = (p: GradeProfile): Record<string, string> => ({
+  cefr: p.cefr,
+  vocabulary: `${range(p.vocabularySize)} words`,
+  grammar: p.grammar.join(", "),
+  passageLength: `${range(p.passageWords)} words`,
+  sentenceLength: `${range(p.sentenceWords)} words average`,
+  questionTypes: p.questionKinds.map(id => QUESTION_KINDS.find(k => k.id === id)?.label || id).join(", "),
+});
+
+export const GRADE_PROFILE_VARIABLES = ["cefr", "vocabulary", "grammar", "passageLength", "sentenceLength", "questionTypes"];
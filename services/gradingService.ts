@@ -0,0 +1,206 @@
+import { ExamData, GradingKey, GradingSession, PrintedPapers, StudentResult } from "../types";
+import { isMultipleChoice, parseAnswerLetter, OPTION_LETTERS } from "./examUtils";
+import { generateVersions, DEFAULT_START_CODE } from "./versionService";
+import { newId } from "./localDb";
+
+export interface StudentScore {
+  perQuestion: Record<string, number | null>; // null = not answered / not scored yet
+  correct: number;
+  choiceScore: number;
+  writtenScore: number;
+  total: number;
+}
+
+const BLANK_MARKS = ["-", "_", ".", "*", "?"];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * The papers students could have sat. Without versions everyone sat the original,
+ * which is printed as mã đề DEFAULT_START_CODE.
+ */
+export const deriveGradingKeys = (exam: ExamData, versionCount: number, versionSeed: number): GradingKey[] => {
+  if (versionCount > 0) return generateVersions(exam, versionCount, versionSeed);
+  return [{ code: String(DEFAULT_START_CODE), content: exam.content, answers: exam.answers }];
+};
+
+/**
+ * Starts grading with the keys of the papers as printed, or of the exam as it is now
+ * when it has not been printed yet.
+ */
+export const createGradingSession = (exam: ExamData, versionCount: number, versionSeed: number, printed?: PrintedPapers): GradingSession => ({
+  versionCount: printed ? printed.versionCount : versionCount,
+  versionSeed: printed ? printed.versionSeed : versionSeed,
+  keys: printed ? printed.keys : deriveGradingKeys(exam, versionCount, versionSeed),
+  students: [],
+  updatedAt: Date.now(),
+});
+
+export const printedPapers = (exam: ExamData, versionCount: number, versionSeed: number): PrintedPapers => ({
+  versionCount,
+  versionSeed,
+  keys: deriveGradingKeys(exam, versionCount, versionSeed),
+  printedAt: Date.now(),
+});
+
+export const getGradingKeys = (exam: ExamData, session: GradingSession): GradingKey[] =>
+  session.keys || deriveGradingKeys(exam, session.versionCount, session.versionSeed);
+
+/** True when the exam has been edited since the session's keys were taken. */
+export const keysOutOfDate = (exam: ExamData, session: GradingSession): boolean =>
+  !!session.keys && JSON.stringify(session.keys) !== JSON.stringify(deriveGradingKeys(exam, session.versionCount, session.versionSeed));
+
+const questionsOf = (key: GradingKey) => key.content.flatMap(s => s.questions);
+
+export const choiceQuestionIds = (key: GradingKey): string[] =>
+  questionsOf(key).filter(isMultipleChoice).map(q => q.id);
+
+export const writtenQuestions = (key: GradingKey) =>
+  questionsOf(key).filter(q => !isMultipleChoice(q)).map(q => ({ id: q.id, points: q.points || 0 }));
+
+/**
+ * Reads a response string such as "ABCD-DA" or "A, B, C" into letters per question,
+ * in paper order. "-", "_", ".", "*" and "?" mark an unanswered question.
+ */
+export const parseChoices = (text: string, questionIds: string[]): Record<string, string> => {
+  const marks = text.toUpperCase().replace(/[\s,;|]/g, "").split("");
+  const choices: Record<string, string> = {};
+  questionIds.forEach((id, i) => {
+    const mark = marks[i];
+    if (mark && OPTION_LETTERS.includes(mark)) choices[id] = mark;
+  });
+  return choices;
+};
+
+export const formatChoices = (choices: Record<string, string>, questionIds: string[]): string => {
+  const text = questionIds.map(id => choices[id] || BLANK_MARKS[0]).join("");
+  return text.replace(/-+$/, "");
+};
+
+const VERSION_HEADER = /^(mã đề|ma de|mã đề thi|ma de thi|version|code)$/i;
+const NAME_HEADER = /^(họ và tên|họ tên|ho va ten|ho ten|tên|name)$/i;
+
+/**
+ * Parses a pasted roster, one student per line. Columns are split by tab, comma or
+ * semicolon: a single column is the name; otherwise Mã HS, Họ và tên, [Mã đề], [responses...].
+ * The third column is the mã đề only when a header row says so or it holds a number
+ * (answers are letters), so a roster without that column keeps its answers.
+ * Response cells after the mã đề are joined, so one letter per cell works too.
+ */
+export const parseRoster = (text: string, keys: GradingKey[]): StudentResult[] => {
+  const defaultCode = keys[0]?.code || String(DEFAULT_START_CODE);
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => line.split(/\t|;|,/).map(c => c.trim()));
+
+  // A header row copied together with the roster decides whether there is a Mã đề column
+  const headerIdx = rows.findIndex(cols => cols.some(c => NAME_HEADER.test(c)));
+  const hasVersionColumn = headerIdx === -1 ? undefined : VERSION_HEADER.test(rows[headerIdx][2] || "");
+  const isVersionCell = (cell: string | undefined) =>
+    hasVersionColumn ?? (!!cell && (keys.some(k => k.code === cell) || /^\d+$/.test(cell)));
+
+  return rows
+    .filter((_, i) => i !== headerIdx)
+    .map(cols => {
+      const [studentCode, name, ...rest] = cols.length === 1 ? ["", cols[0]] : cols;
+      const [versionCode, responses] = isVersionCell(rest[0]) ? [rest[0], rest.slice(1)] : [undefined, rest];
+      const key = keys.find(k => k.code === versionCode) || keys[0];
+      return {
+        id: newId(),
+        studentCode,
+        name,
+        versionCode: key?.code || defaultCode,
+        choices: key ? parseChoices(responses.join(""), choiceQuestionIds(key)) : {},
+        manualScores: {},
+      };
+    });
+};
+
+export const createStudent = (versionCode: string): StudentResult => ({
+  id: newId(),
+  studentCode: "",
+  name: "",
+  versionCode,
+  choices: {},
+  manualScores: {},
+});
+
+/**
+ * Scores one student: multiple choice items earn their `points` when the chosen letter
+ * matches the key; written items use the teacher's manual score, capped at `points`.
+ */
+export const scoreStudent = (student: StudentResult, key: GradingKey | undefined): StudentScore => {
+  const perQuestion: Record<string, number | null> = {};
+  let correct = 0;
+  let choiceScore = 0;
+  let writtenScore = 0;
+
+  (key ? questionsOf(key) : []).forEach(q => {
+    const points = q.points || 0;
+    if (isMultipleChoice(q)) {
+      const chosen = student.choices[q.id];
+      const expected = parseAnswerLetter(key.answers.find(a => a.questionId === q.id)?.answer || "");
+      if (!chosen) {
+        perQuestion[q.id] = null;
+      } else if (chosen === expected) {
+        perQuestion[q.id] = points;
+        correct++;
+        choiceScore += points;
+      } else {
+        perQuestion[q.id] = 0;
+      }
+    } else {
+      const manual = student.manualScores[q.id];
+      if (manual === undefined || Number.isNaN(manual)) {
+        perQuestion[q.id] = null;
+      } else {
+        const capped = Math.min(Math.max(manual, 0), points || manual);
+        perQuestion[q.id] = capped;
+        writtenScore += capped;
+      }
+    }
+  });
+
+  return {
+    perQuestion,
+    correct,
+    choiceScore: round2(choiceScore),
+    writtenScore: round2(writtenScore),
+    total: round2(choiceScore + writtenScore),
+  };
+};
+
+export type SheetRow = (string | number)[];
+
+/**
+ * Rows for the gradebook import (STT, Mã HS, Họ và tên, Điểm) and a detail sheet
+ * with the score of every question.
+ */
+export const buildGradebookRows = (exam: ExamData, session: GradingSession): { summary: SheetRow[]; detail: SheetRow[] } => {
+  const keys = getGradingKeys(exam, session);
+  // Columns follow the keys the students were scored against, not the exam as edited since;
+  // question slots are the same on every version, so the first key decides them
+  const questionIds = (keys[0]?.content || []).flatMap(s => s.questions.map(q => q.id));
+
+  const summary: SheetRow[] = [["STT", "Mã học sinh", "Họ và tên", "Điểm"]];
+  const detail: SheetRow[] = [["STT", "Mã học sinh", "Họ và tên", "Mã đề", ...questionIds, "Trắc nghiệm", "Tự luận", "Tổng điểm"]];
+
+  session.students.forEach((student, i) => {
+    const score = scoreStudent(student, keys.find(k => k.code === student.versionCode));
+    summary.push([i + 1, student.studentCode, student.name, score.total]);
+    detail.push([
+      i + 1,
+      student.studentCode,
+      student.name,
+      student.versionCode,
+      ...questionIds.map(id => score.perQuestion[id] ?? ""),
+      score.choiceScore,
+      score.writtenScore,
+      score.total,
+    ]);
+  });
+
+  return { summary, detail };
+};
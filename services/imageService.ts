@@ -0,0 +1,75 @@
+import { ExamImage } from "../types";
+import { newId } from "./localDb";
+
+// Longest side of a stored picture; larger uploads are scaled down to keep exams small
+const MAX_IMAGE_PX = 800;
+const CLIP_ART_PX = 256;
+
+/** Largest size a picture is shown or printed at, in CSS pixels. */
+export const IMAGE_DISPLAY_PX = 160;
+/** Pictures per row on the A4 page (three 160 px pictures fit the text width). */
+export const IMAGES_PER_ROW = 3;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("The file could not be read as an image."));
+    img.src = src;
+  });
+
+/**
+ * Reads an uploaded or dropped picture, scaled down to MAX_IMAGE_PX. Photos stay JPEG,
+ * everything else (drawings, screenshots, GIF, WebP...) is stored as PNG for Word.
+ */
+export const readImageFile = async (file: File): Promise<ExamImage> => {
+  if (!file.type.startsWith("image/")) throw new Error(`"${file.name}" is not an image.`);
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const scale = Math.min(1, MAX_IMAGE_PX / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")!.drawImage(img, 0, 0, width, height);
+    const dataUrl = file.type === "image/jpeg" ? canvas.toDataURL("image/jpeg", 0.85) : canvas.toDataURL("image/png");
+    return { id: newId(), dataUrl, width, height, alt: file.name.replace(/\.[^.]+$/, "") };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/** Draws a clip-art glyph onto a square PNG so it prints the same everywhere. */
+export const renderClipArt = (glyph: string, label: string): ExamImage => {
+  const canvas = document.createElement("canvas");
+  canvas.width = CLIP_ART_PX;
+  canvas.height = CLIP_ART_PX;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, CLIP_ART_PX, CLIP_ART_PX);
+  ctx.font = `${Math.round(CLIP_ART_PX * 0.75)}px "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(glyph, CLIP_ART_PX / 2, CLIP_ART_PX / 2 + CLIP_ART_PX * 0.04);
+  return { id: newId(), dataUrl: canvas.toDataURL("image/png"), width: CLIP_ART_PX, height: CLIP_ART_PX, alt: label };
+};
+
+/** Display size within a IMAGE_DISPLAY_PX box, keeping the aspect ratio. */
+export const imageDisplaySize = (image: ExamImage, max = IMAGE_DISPLAY_PX) => {
+  const scale = Math.min(1, max / Math.max(image.width, image.height));
+  return { width: Math.round(image.width * scale), height: Math.round(image.height * scale) };
+};
+
+/** Raw bytes of a data URL, for embedding in the Word export. */
+export const imageBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/** Reads every image among dropped or selected files, skipping anything else. */
+export const readImageFiles = (files: FileList | File[]): Promise<ExamImage[]> =>
+  Promise.all(Array.from(files).filter(f => f.type.startsWith("image/")).map(readImageFile));
@@ -0,0 +1,71 @@
+/**
+ * Inline markup inside question text, options, passages and answers:
+ * <u>underline</u>, <b>bold</b>, <i>italic</i>, and a run of 3+ underscores for a blank.
+ * Pronunciation and stress items underline the letters or syllable being tested.
+ */
+export interface InlineRun {
+  text: string;
+  underline?: boolean;
+  bold?: boolean;
+  italic?: boolean;
+  blank?: boolean;
+}
+
+export const BLANK_TEXT = "________";
+
+const TOKEN = /<(\/?)([ubi])>|_{3,}/gi;
+const TAG = /<\/?[ubi]>/gi;
+
+const STYLE: Record<string, "underline" | "bold" | "italic"> = { u: "underline", b: "bold", i: "italic" };
+
+/**
+ * Splits marked-up text into styled runs. Tags may nest; an unclosed tag runs to the
+ * end of the text and a stray closing tag is ignored, so a cut-off passage still renders.
+ */
+export const parseInline = (text: string): InlineRun[] => {
+  const runs: InlineRun[] = [];
+  const open = { underline: 0, bold: 0, italic: 0 };
+  const style = () => ({
+    ...(open.underline ? { underline: true } : {}),
+    ...(open.bold ? { bold: true } : {}),
+    ...(open.italic ? { italic: true } : {}),
+  });
+
+  let last = 0;
+  for (const match of (text || "").matchAll(TOKEN)) {
+    if (match.index! > last) runs.push({ text: text.slice(last, match.index), ...style() });
+    last = match.index! + match[0].length;
+    if (!match[2]) {
+      runs.push({ text: BLANK_TEXT, blank: true, ...style() });
+      continue;
+    }
+    const key = STYLE[match[2].toLowerCase()];
+    open[key] = match[1] ? Math.max(0, open[key] - 1) : open[key] + 1;
+  }
+  if (last < (text || "").length) runs.push({ text: text.slice(last), ...style() });
+  return runs;
+};
+
+/**
+ * Consecutive pieces of one marked-up text, each made to stand alone: tags still open
+ * where a piece ends are closed there and opened again at the start of the next piece.
+ */
+export const balanceInline = (pieces: string[]): string[] => {
+  const open: string[] = [];
+  return pieces.map(piece => {
+    const reopened = open.map(tag => `<${tag}>`).join("") + piece;
+    for (const match of piece.matchAll(TOKEN)) {
+      if (!match[2]) continue;
+      const tag = match[2].toLowerCase();
+      if (!match[1]) open.push(tag);
+      else if (open.lastIndexOf(tag) >= 0) open.splice(open.lastIndexOf(tag), 1);
+    }
+    return reopened + [...open].reverse().map(tag => `</${tag}>`).join("");
+  });
+};
+
+/** Text without the markup tags, for plain-text output and length estimates. */
+export const stripInline = (text: string) => (text || "").replace(TAG, "");
+
+/** Markup tags turned back into HTML in text that has already been XML-escaped. */
+export const inlineTagsToHtml = (escaped: string) => escaped.replace(/&lt;(\/?)([ubi])&gt;/gi, "<$1$2>");
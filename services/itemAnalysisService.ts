@@ -0,0 +1,160 @@
+import { ExamData, GradingKey, GradingSession, StudentResult } from "../types";
+import { isMultipleChoice, parseAnswerLetter, OPTION_LETTERS } from "./examUtils";
+import { getGradingKeys, scoreStudent } from "./gradingService";
+
+/** Share of students in the upper and lower groups for the discrimination index. */
+export const GROUP_SHARE = 0.27;
+
+export interface DistractorStat {
+  letter: string; // letter on the original paper
+  content: string;
+  count: number;
+  isKey: boolean;
+  unused: boolean; // a wrong option nobody picked
+}
+
+export interface ItemStat {
+  questionId: string;
+  text: string;
+  isChoice: boolean;
+  maxPoints: number;
+  responses: number; // students who answered / were scored on this item
+  pValue: number | null;
+  discrimination: number | null;
+  distractors: DistractorStat[];
+  blanks: number;
+  flags: string[];
+}
+
+export interface ItemAnalysis {
+  studentCount: number;
+  groupSize: number;
+  items: ItemStat[];
+  kr20: number | null; // over multiple choice items only
+}
+
+/** Per student, per original question: earned share of the item (0..1) and the chosen original letter. */
+interface Observation {
+  total: number;
+  scores: Record<string, number>;
+  letters: Record<string, string>;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const mean = (values: number[]) => (values.length ? values.reduce((acc, v) => acc + v, 0) / values.length : 0);
+
+const hasResponses = (s: StudentResult) =>
+  Object.keys(s.choices).length > 0 || Object.keys(s.manualScores).length > 0;
+
+/**
+ * Maps a student's paper back to the original questions, undoing the question and
+ * option shuffle of their mã đề.
+ */
+const observe = (student: StudentResult, key: GradingKey): Observation => {
+  const score = scoreStudent(student, key);
+  const scores: Record<string, number> = {};
+  const letters: Record<string, string> = {};
+
+  key.content.flatMap(s => s.questions).forEach(q => {
+    const origin = key.origins?.[q.id];
+    const originalId = origin?.questionId || q.id;
+
+    if (isMultipleChoice(q)) {
+      const chosen = student.choices[q.id];
+      const expected = parseAnswerLetter(key.answers.find(a => a.questionId === q.id)?.answer || "");
+      scores[originalId] = chosen && chosen === expected ? 1 : 0;
+      if (chosen) letters[originalId] = origin?.letters[chosen] || chosen;
+    } else {
+      const earned = score.perQuestion[q.id];
+      if (earned !== null && earned !== undefined && q.points) scores[originalId] = earned / q.points;
+    }
+  });
+
+  return { total: score.total, scores, letters };
+};
+
+const flagsFor = (pValue: number | null, discrimination: number | null, distractors: DistractorStat[]): string[] => {
+  const flags: string[] = [];
+  if (pValue !== null && pValue < 0.2) flags.push("Too hard");
+  if (pValue !== null && pValue > 0.9) flags.push("Too easy");
+  if (discrimination !== null && discrimination < 0) flags.push("Negative discrimination — check the key");
+  else if (discrimination !== null && discrimination < 0.2) flags.push("Poor discrimination");
+  if (distractors.some(d => d.unused)) flags.push("Unused distractor");
+  return flags;
+};
+
+/**
+ * Classical item analysis of graded results: difficulty (p-value), discrimination from
+ * the top and bottom 27% by total score, distractor frequencies and KR-20.
+ * Unanswered multiple choice items count as wrong.
+ */
+export const analyzeItems = (exam: ExamData, session: GradingSession): ItemAnalysis => {
+  const keys = getGradingKeys(exam, session);
+  const observations = session.students
+    .filter(hasResponses)
+    .map(s => {
+      const key = keys.find(k => k.code === s.versionCode);
+      return key ? observe(s, key) : null;
+    })
+    .filter((o): o is Observation => o !== null);
+
+  const ranked = [...observations].sort((a, b) => b.total - a.total);
+  const groupSize = ranked.length ? Math.max(1, Math.round(ranked.length * GROUP_SHARE)) : 0;
+  const upper = ranked.slice(0, groupSize);
+  const lower = ranked.slice(ranked.length - groupSize);
+
+  const items: ItemStat[] = exam.content.flatMap(s => s.questions).map(q => {
+    const isChoice = isMultipleChoice(q);
+    const scored = observations.filter(o => o.scores[q.id] !== undefined);
+    const pValue = scored.length ? round2(mean(scored.map(o => o.scores[q.id]))) : null;
+    const discrimination = groupSize > 0 && scored.length
+      ? round2(mean(upper.map(o => o.scores[q.id] ?? 0)) - mean(lower.map(o => o.scores[q.id] ?? 0)))
+      : null;
+
+    const keyLetter = parseAnswerLetter(exam.answers.find(a => a.questionId === q.id)?.answer || "");
+    const distractors: DistractorStat[] = isChoice
+      ? OPTION_LETTERS.map((letter, i) => {
+          const count = observations.filter(o => o.letters[q.id] === letter).length;
+          const isKey = letter === keyLetter;
+          return { letter, content: q.parts![i].content, count, isKey, unused: !isKey && count === 0 && observations.length > 0 };
+        })
+      : [];
+
+    return {
+      questionId: q.id,
+      text: q.text,
+      isChoice,
+      maxPoints: q.points || 0,
+      responses: isChoice ? observations.filter(o => o.letters[q.id]).length : scored.length,
+      pValue,
+      discrimination,
+      distractors,
+      blanks: isChoice ? observations.filter(o => !o.letters[q.id]).length : 0,
+      flags: flagsFor(pValue, discrimination, distractors),
+    };
+  });
+
+  return { studentCount: observations.length, groupSize, items, kr20: computeKr20(exam, observations) };
+};
+
+/**
+ * KR-20 = k/(k-1) * (1 - Σ p(1-p) / σ²) over the dichotomous (multiple choice) items,
+ * with σ² the population variance of the number of correct answers.
+ */
+const computeKr20 = (exam: ExamData, observations: Observation[]): number | null => {
+  const ids = exam.content.flatMap(s => s.questions).filter(isMultipleChoice).map(q => q.id);
+  const k = ids.length;
+  if (k < 2 || observations.length < 2) return null;
+
+  const correct = (o: Observation, id: string) => o.scores[id] ?? 0;
+  const totals = observations.map(o => ids.reduce((acc, id) => acc + correct(o, id), 0));
+  const avg = mean(totals);
+  const variance = mean(totals.map(t => (t - avg) ** 2));
+  if (variance === 0) return null;
+
+  const sumPq = ids.reduce((acc, id) => {
+    const p = mean(observations.map(o => correct(o, id)));
+    return acc + p * (1 - p);
+  }, 0);
+  return round2((k / (k - 1)) * (1 - sumPq / variance));
+};
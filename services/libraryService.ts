@@ -0,0 +1,91 @@
+import { ExamConfig, ExamData, GenerationRun, GradingSession, PrintedPapers, SavedExam } from "../types";
+import { run, newId, EXAM_STORE } from "./localDb";
+
+const examStore = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest) => run<T>(EXAM_STORE, mode, fn);
+
+export const saveExam = async (exam: ExamData, config: ExamConfig | null, run?: GenerationRun): Promise<SavedExam> => {
+  const now = Date.now();
+  const record: SavedExam = {
+    id: newId(),
+    title: exam.examTitle || "Untitled exam",
+    exam,
+    config,
+    ...(run ? { run } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await examStore("readwrite", store => store.put(record));
+  return record;
+};
+
+/**
+ * Reads a saved exam and writes back only the changed fields in the same transaction,
+ * so an exam autosave and a grading or print save that overlap keep each other's field.
+ */
+const patchSavedExam = async (id: string, patch: (existing: SavedExam) => Partial<SavedExam>): Promise<void> => {
+  await examStore<SavedExam | undefined>("readwrite", store => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const existing = request.result as SavedExam | undefined;
+      if (existing) store.put({ ...existing, ...patch(existing) });
+    };
+    return request;
+  });
+};
+
+export const updateSavedExam = (id: string, exam: ExamData): Promise<void> =>
+  patchSavedExam(id, existing => ({ exam, title: exam.examTitle || existing.title, updatedAt: Date.now() }));
+
+export const updateSavedGrading = (id: string, grading: GradingSession): Promise<void> =>
+  patchSavedExam(id, () => ({ grading }));
+
+export const updateSavedPrinted = (id: string, printed: PrintedPapers): Promise<void> =>
+  patchSavedExam(id, () => ({ printed }));
+
+export const getSavedExam = (id: string): Promise<SavedExam | undefined> =>
+  examStore<SavedExam | undefined>("readonly", store => store.get(id));
+
+/**
+ * All saved exams, newest first.
+ */
+export const listSavedExams = async (): Promise<SavedExam[]> => {
+  const all = await examStore<SavedExam[]>("readonly", store => store.getAll());
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const duplicateSavedExam = async (id: string): Promise<SavedExam | undefined> => {
+  const existing = await getSavedExam(id);
+  if (!existing) return undefined;
+  const copy = { ...existing.exam, examTitle: `${existing.exam.examTitle || existing.title} (copy)` };
+  return saveExam(copy, existing.config, existing.run);
+};
+
+export const deleteSavedExam = (id: string): Promise<void> =>
+  examStore<void>("readwrite", store => store.delete(id));
+
+export interface LibraryFilter {
+  query: string;
+  gradeLevel: string;
+  from?: string; // yyyy-mm-dd
+  to?: string;
+}
+
+/**
+ * Matches title, grade and topic against the free-text query, plus grade and date range filters.
+ */
+export const filterSavedExams = (exams: SavedExam[], filter: LibraryFilter): SavedExam[] => {
+  const query = filter.query.trim().toLowerCase();
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59`).getTime() : Infinity;
+
+  return exams.filter(e => {
+    if (filter.gradeLevel && e.config?.gradeLevel !== filter.gradeLevel) return false;
+    if (e.createdAt < from || e.createdAt > to) return false;
+    if (!query) return true;
+    const haystack = [e.title, e.config?.gradeLevel, e.config?.level, e.config?.topic, e.config?.trendingTopic]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    return haystack.includes(query);
+  });
+};
@@ -0,0 +1,229 @@
+import JSZip from "jszip";
+import { ExamData } from "../types";
+import { isMultipleChoice, parseAnswerLetter, OPTION_LETTERS } from "./examUtils";
+import { stripInline, inlineTagsToHtml } from "./inlineMarkup";
+
+export type LmsFormat = "moodle" | "gift" | "qti";
+
+export const LMS_FORMATS: { id: LmsFormat; label: string; extension: string }[] = [
+  { id: "moodle", label: "Moodle XML", extension: "xml" },
+  { id: "gift", label: "GIFT", extension: "txt" },
+  { id: "qti", label: "IMS QTI 2.1", extension: "zip" },
+];
+
+export interface LmsExport {
+  blob: Blob;
+  extension: string;
+  warnings: string[];
+}
+
+type LmsItem =
+  | { kind: "description"; name: string; text: string }
+  | { kind: "choice"; name: string; text: string; options: string[]; correct: number; points: number }
+  | { kind: "essay"; name: string; text: string; answer: string; points: number };
+
+/**
+ * Flattens the exam into LMS items. Each section becomes a description item carrying its
+ * instruction and shared passage; multiple-choice questions with a valid key become
+ * single-answer choice items and everything else an essay for manual grading.
+ */
+const collectItems = (data: ExamData): { items: LmsItem[]; warnings: string[] } => {
+  const items: LmsItem[] = [];
+  const warnings: string[] = [];
+  const answerById = new Map(data.answers.map(a => [a.questionId, a]));
+
+  data.content.forEach((section, sIdx) => {
+    const passage = [section.text, section.source ? `(${section.source})` : ""].filter(Boolean).join("\n");
+    items.push({
+      kind: "description",
+      name: `Part ${sIdx + 1}`,
+      text: passage ? `${section.section}\n\n${passage}` : section.section,
+    });
+    if (section.images?.length) warnings.push(`Part ${sIdx + 1}: pictures are not exported; add them in the LMS.`);
+
+    section.questions.forEach(q => {
+      const answer = answerById.get(q.id)?.answer || "";
+      if (!q.points) warnings.push(`${q.id}: has no points, exported with 0.`);
+      if (q.images?.length) warnings.push(`${q.id}: pictures are not exported; add them in the LMS.`);
+
+      if (isMultipleChoice(q)) {
+        const letter = parseAnswerLetter(answer);
+        if (letter) {
+          items.push({
+            kind: "choice",
+            name: q.id,
+            text: q.text,
+            options: q.parts!.map(p => p.content),
+            correct: OPTION_LETTERS.indexOf(letter),
+            points: q.points,
+          });
+          return;
+        }
+        warnings.push(`${q.id}: answer key "${answer || "(empty)"}" is not an option letter, exported as an essay.`);
+      } else if (q.parts && q.parts.length > 0) {
+        warnings.push(`${q.id}: ${q.parts.length} sub-items are not a 4-option choice, exported as one essay for manual grading.`);
+      } else {
+        warnings.push(`${q.id}: written question exported as an essay for manual grading.`);
+      }
+
+      const parts = (q.parts || []).map(p => `${p.label} ${p.content}`);
+      items.push({ kind: "essay", name: q.id, text: [q.text, ...parts].filter(Boolean).join("\n"), answer, points: q.points });
+    });
+  });
+
+  return { items, warnings };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** Plain text as HTML paragraphs with line breaks kept. */
+const toHtml = (text: string) =>
+  text.split(/\n{2,}/).map(para => `<p>${escapeXml(para).replace(/\n/g, "<br/>")}</p>`).join("");
+
+// Moodle renders inline markup as HTML; GIFT and QTI get plain text so tags can never unbalance them
+const moodleHtml = (text: string) => inlineTagsToHtml(toHtml(text));
+
+const cdata = (html: string) => `<![CDATA[${html.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+
+// --- Moodle XML ---
+
+const moodleText = (text: string) => `<text>${cdata(moodleHtml(text))}</text>`;
+
+const moodleQuestion = (item: LmsItem): string => {
+  const head = `<name><text>${escapeXml(item.name)}</text></name>\n    <questiontext format="html">${moodleText(item.text)}</questiontext>`;
+  if (item.kind === "description") {
+    return `  <question type="description">\n    ${head}\n    <defaultgrade>0</defaultgrade>\n  </question>`;
+  }
+  if (item.kind === "choice") {
+    const answers = item.options.map((option, i) =>
+      `    <answer fraction="${i === item.correct ? 100 : 0}" format="html">${moodleText(option)}</answer>`
+    ).join("\n");
+    return `  <question type="multichoice">
+    ${head}
+    <defaultgrade>${item.points}</defaultgrade>
+    <single>true</single>
+    <shuffleanswers>0</shuffleanswers>
+    <answernumbering>ABCD</answernumbering>
+${answers}
+  </question>`;
+  }
+  return `  <question type="essay">
+    ${head}
+    <defaultgrade>${item.points}</defaultgrade>
+    <responseformat>editor</responseformat>
+    <graderinfo format="html">${moodleText(item.answer || "")}</graderinfo>
+  </question>`;
+};
+
+export const buildMoodleXml = (data: ExamData): { content: string; warnings: string[] } => {
+  const { items, warnings } = collectItems(data);
+  const category = `  <question type="category">\n    <category><text>$course$/${escapeXml(data.examTitle.replace(/\//g, "-"))}</text></category>\n  </question>`;
+  return {
+    content: `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${[category, ...items.map(moodleQuestion)].join("\n")}\n</quiz>\n`,
+    warnings,
+  };
+};
+
+// --- GIFT ---
+
+const escapeGift = (text: string) => stripInline(text).replace(/([~=#{}:\\])/g, "\\$1").replace(/\n/g, "\\n");
+
+const giftQuestion = (item: LmsItem): string => {
+  const head = `::${escapeGift(item.name)}::${escapeGift(item.text)}`;
+  if (item.kind === "description") return head;
+  if (item.kind === "choice") {
+    const options = item.options.map((option, i) => `\t${i === item.correct ? "=" : "~"}${escapeGift(option)}`).join("\n");
+    return `${head} {\n${options}\n}`;
+  }
+  return `${head} {}`;
+};
+
+export const buildGift = (data: ExamData): { content: string; warnings: string[] } => {
+  const { items, warnings } = collectItems(data);
+  const content = [`// ${data.examTitle} (${data.duration})`, ...items.map(giftQuestion)].join("\n\n") + "\n";
+  // GIFT has no syntax for marks
+  if (items.some(i => i.kind !== "description")) {
+    warnings.unshift("GIFT cannot store points: every question imports with the LMS default mark. Use Moodle XML or QTI to keep the 10-point scale.");
+  }
+  return { content, warnings };
+};
+
+// --- IMS QTI 2.1 ---
+
+const QTI_NS = `xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"`;
+
+const qtiItem = (item: LmsItem, identifier: string): string => {
+  const open = `<?xml version="1.0" encoding="UTF-8"?>\n<assessmentItem ${QTI_NS} identifier="${identifier}" title="${escapeXml(item.name)}" adaptive="false" timeDependent="false">`;
+  const prompt = toHtml(stripInline(item.text));
+
+  if (item.kind === "description") {
+    return `${open}\n<itemBody><div>${prompt}</div></itemBody>\n</assessmentItem>\n`;
+  }
+
+  const score = `<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float" normalMaximum="${item.points}"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>`;
+
+  if (item.kind === "choice") {
+    const choices = item.options.map((option, i) =>
+      `<simpleChoice identifier="${OPTION_LETTERS[i]}">${escapeXml(stripInline(option))}</simpleChoice>`
+    ).join("\n");
+    return `${open}
+<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier"><correctResponse><value>${OPTION_LETTERS[item.correct]}</value></correctResponse></responseDeclaration>
+${score}
+<itemBody><choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1"><prompt>${escapeXml(stripInline(item.text))}</prompt>
+${choices}
+</choiceInteraction></itemBody>
+<responseProcessing><responseCondition><responseIf><match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match><setOutcomeValue identifier="SCORE"><baseValue baseType="float">${item.points}</baseValue></setOutcomeValue></responseIf></responseCondition></responseProcessing>
+</assessmentItem>\n`;
+  }
+
+  return `${open}
+<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>
+${score}
+<itemBody><div>${prompt}</div><extendedTextInteraction responseIdentifier="RESPONSE"/></itemBody>
+</assessmentItem>\n`;
+};
+
+/**
+ * Content package with one assessmentItem per item, an assessmentTest that keeps the
+ * exam order, and the imsmanifest.xml that LMS importers look for.
+ */
+export const buildQtiPackage = async (data: ExamData): Promise<{ blob: Blob; warnings: string[] }> => {
+  const { items, warnings } = collectItems(data);
+  const zip = new JSZip();
+  const files = items.map((item, i) => ({ item, identifier: `item${String(i + 1).padStart(3, "0")}` }));
+
+  files.forEach(({ item, identifier }) => zip.file(`items/${identifier}.xml`, qtiItem(item, identifier)));
+
+  const refs = files.map(({ identifier }) => `<assessmentItemRef identifier="${identifier}" href="items/${identifier}.xml"/>`).join("\n");
+  zip.file("test.xml", `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest ${QTI_NS} identifier="test" title="${escapeXml(data.examTitle)}">
+<testPart identifier="part1" navigationMode="nonlinear" submissionMode="simultaneous">
+<assessmentSection identifier="section1" title="${escapeXml(data.examTitle)}" visible="true">
+${refs}
+</assessmentSection>
+</testPart>
+</assessmentTest>\n`);
+
+  const resources = files.map(({ identifier }) =>
+    `<resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="items/${identifier}.xml"><file href="items/${identifier}.xml"/></resource>`
+  ).join("\n");
+  zip.file("imsmanifest.xml", `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest">
+<organizations/>
+<resources>
+<resource identifier="test" type="imsqti_test_xmlv2p1" href="test.xml"><file href="test.xml"/>${files.map(({ identifier }) => `<dependency identifierref="${identifier}"/>`).join("")}</resource>
+${resources}
+</resources>
+</manifest>\n`);
+
+  return { blob: await zip.generateAsync({ type: "blob", mimeType: "application/zip" }), warnings };
+};
+
+export const exportToLms = async (data: ExamData, format: LmsFormat): Promise<LmsExport> => {
+  const extension = LMS_FORMATS.find(f => f.id === format)!.extension;
+  if (format === "qti") return { ...(await buildQtiPackage(data)), extension };
+  const { content, warnings } = format === "moodle" ? buildMoodleXml(data) : buildGift(data);
+  const type = format === "moodle" ? "application/xml" : "text/plain";
+  return { blob: new Blob([content], { type: `${type};charset=utf-8` }), extension, warnings };
+};
@@ -0,0 +1,78 @@
+const DB_NAME = "english_assistant_pro";
+const DB_VERSION = 3;
+
+export const EXAM_STORE = "exams";
+export const BANK_STORE = "bankQuestions";
+export const PASSAGE_STORE = "bankPassages";
+export const TEMPLATE_STORE = "templates";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("This browser does not support local storage of exams (IndexedDB)."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(EXAM_STORE)) {
+        const store = db.createObjectStore(EXAM_STORE, { keyPath: "id" });
+        store.createIndex("createdAt", "createdAt");
+      }
+      // v2: question bank
+      if (!db.objectStoreNames.contains(BANK_STORE)) {
+        const store = db.createObjectStore(BANK_STORE, { keyPath: "id" });
+        store.createIndex("passageId", "passageId");
+      }
+      if (!db.objectStoreNames.contains(PASSAGE_STORE)) {
+        db.createObjectStore(PASSAGE_STORE, { keyPath: "id" });
+      }
+      // v3: uploaded .docx templates
+      if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+        db.createObjectStore(TEMPLATE_STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Runs a single request inside a transaction and resolves with its result.
+ */
+export async function run<T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Writes many records to several stores in one transaction.
+ */
+export async function putAll(records: Record<string, object[]>): Promise<void> {
+  const db = await openDB();
+  const storeNames = Object.keys(records);
+  if (storeNames.length === 0) return;
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, "readwrite");
+    storeNames.forEach(name => records[name].forEach(record => tx.objectStore(name).put(record)));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
@@ -0,0 +1,130 @@
+import { ExamData, Question } from "../types";
+
+export const COGNITIVE_LEVELS = ["Nhận biết", "Thông hiểu", "Vận dụng", "Vận dụng cao"];
+
+export const UNCLASSIFIED_LEVEL = "Chưa phân loại";
+
+const LEVEL_ALIASES: Record<string, string> = {
+  "nhan biet": "Nhận biết", "recognition": "Nhận biết", "remember": "Nhận biết", "knowledge": "Nhận biết", "nb": "Nhận biết",
+  "thong hieu": "Thông hiểu", "comprehension": "Thông hiểu", "understanding": "Thông hiểu", "understand": "Thông hiểu", "th": "Thông hiểu",
+  "van dung": "Vận dụng", "application": "Vận dụng", "apply": "Vận dụng", "vd": "Vận dụng",
+  "van dung cao": "Vận dụng cao", "high application": "Vận dụng cao", "advanced application": "Vận dụng cao", "vdc": "Vận dụng cao",
+};
+
+const stripAccents = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/đ/g, "d").replace(/Đ/g, "D");
+
+/**
+ * Maps whatever the AI wrote in `level` onto one of the four official levels.
+ */
+export const normalizeLevel = (level?: string): string => {
+  if (!level) return UNCLASSIFIED_LEVEL;
+  const key = stripAccents(level).toLowerCase().replace(/[^a-z ]/g, " ").replace(/\s+/g, " ").trim();
+  return LEVEL_ALIASES[key] || UNCLASSIFIED_LEVEL;
+};
+
+/**
+ * Skill used for grouping; falls back to the section title when the AI left it empty.
+ */
+const skillOf = (q: Question, sectionTitle: string) => q.skill?.trim() || sectionTitle;
+
+export interface MatrixCell {
+  count: number;
+  points: number;
+}
+
+export interface MatrixRow {
+  skill: string;
+  cells: Record<string, MatrixCell>; // keyed by level
+  total: MatrixCell;
+  percent: number; // share of total points
+}
+
+export interface ExamMatrix {
+  levels: string[];
+  rows: MatrixRow[];
+  totals: Record<string, MatrixCell>;
+  grandTotal: MatrixCell;
+  levelPercents: Record<string, number>;
+}
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/**
+ * Builds the "Ma trận đề": skill × cognitive level with question counts, points and percentages.
+ */
+export const buildExamMatrix = (data: ExamData): ExamMatrix => {
+  const rowMap = new Map<string, MatrixRow>();
+  let hasUnclassified = false;
+
+  data.content.forEach(section => {
+    section.questions.forEach(q => {
+      const skill = skillOf(q, section.section);
+      const level = normalizeLevel(q.level);
+      if (level === UNCLASSIFIED_LEVEL) hasUnclassified = true;
+
+      if (!rowMap.has(skill)) rowMap.set(skill, { skill, cells: {}, total: { count: 0, points: 0 }, percent: 0 });
+      const row = rowMap.get(skill)!;
+      const cell = row.cells[level] || (row.cells[level] = { count: 0, points: 0 });
+      cell.count++;
+      cell.points += q.points || 0;
+      row.total.count++;
+      row.total.points += q.points || 0;
+    });
+  });
+
+  const levels = hasUnclassified ? [...COGNITIVE_LEVELS, UNCLASSIFIED_LEVEL] : COGNITIVE_LEVELS;
+  const rows = Array.from(rowMap.values());
+  const grandTotal = rows.reduce((acc, r) => ({ count: acc.count + r.total.count, points: acc.points + r.total.points }), { count: 0, points: 0 });
+
+  const totals: Record<string, MatrixCell> = {};
+  const levelPercents: Record<string, number> = {};
+  levels.forEach(level => {
+    totals[level] = rows.reduce((acc, r) => ({
+      count: acc.count + (r.cells[level]?.count || 0),
+      points: acc.points + (r.cells[level]?.points || 0),
+    }), { count: 0, points: 0 });
+    totals[level].points = round(totals[level].points);
+    levelPercents[level] = grandTotal.points ? round((totals[level].points / grandTotal.points) * 100, 1) : 0;
+  });
+
+  rows.forEach(r => {
+    r.total.points = round(r.total.points);
+    Object.values(r.cells).forEach(c => { c.points = round(c.points); });
+    r.percent = grandTotal.points ? round((r.total.points / grandTotal.points) * 100, 1) : 0;
+  });
+
+  return { levels, rows, totals, grandTotal: { count: grandTotal.count, points: round(grandTotal.points) }, levelPercents };
+};
+
+export interface SpecificationRow {
+  skill: string;
+  objective: string;
+  questionIds: Record<string, string[]>; // keyed by level
+}
+
+/**
+ * Builds the "Bản đặc tả": which question tests which objective, grouped by skill.
+ */
+export const buildSpecification = (data: ExamData): { levels: string[]; rows: SpecificationRow[] } => {
+  const rows: SpecificationRow[] = [];
+  const levels = new Set(COGNITIVE_LEVELS);
+
+  data.content.forEach(section => {
+    section.questions.forEach(q => {
+      const skill = skillOf(q, section.section);
+      const objective = q.objective?.trim() || "(chưa mô tả)";
+      const level = normalizeLevel(q.level);
+      levels.add(level);
+
+      let row = rows.find(r => r.skill === skill && r.objective === objective);
+      if (!row) {
+        row = { skill, objective, questionIds: {} };
+        rows.push(row);
+      }
+      (row.questionIds[level] ||= []).push(q.id);
+    });
+  });
+
+  return { levels: Array.from(levels), rows };
+};
@@ -0,0 +1,85 @@
+import { AnswerKey, ExamSection, Question } from "../types";
+
+/*
+ * Deterministic stand-in for a model, for demos without a key and for testing the
+ * generation flow. It recognises which prompt it was given and answers with fixed
+ * sample content in the shape that prompt asks for.
+ */
+
+const choice = (id: string, text: string, options: string[], level: string, skill: string, objective: string): Question => ({
+  id,
+  kind: "multiple_choice",
+  text,
+  points: 0.25,
+  level,
+  skill,
+  objective,
+  parts: options.map((content, i) => ({ label: `${"ABCD"[i]}.`, content })),
+});
+
+const MOCK_SECTIONS: ExamSection[] = [
+  {
+    section: "I. PHẦN TRẮC NGHIỆM",
+    questions: [
+      choice("Question 1", "Choose the word whose underlined part is pronounced differently.", ["c<u>a</u>t", "h<u>a</u>t", "m<u>a</u>ke", "b<u>a</u>g"], "Nhận biết", "Pronunciation", "Phân biệt cách phát âm nguyên âm a"),
+      choice("Question 2", "My brother _____ football every Sunday.", ["play", "plays", "playing", "is play"], "Nhận biết", "Grammar", "Thì hiện tại đơn với chủ ngữ số ít"),
+      choice("Question 3", "She is interested _____ learning English.", ["on", "at", "in", "for"], "Thông hiểu", "Grammar", "Giới từ đi với tính từ"),
+      choice("Question 4", "- \"Would you like some tea?\" - \"_____\"", ["Yes, please.", "No, I don't.", "I like it.", "You're welcome."], "Vận dụng", "Communication", "Đáp lại lời mời"),
+    ],
+  },
+  {
+    section: "II. READ THE PASSAGE AND ANSWER THE QUESTIONS",
+    text: "Lan lives in a small village near the sea. Every morning she gets up early and helps her mother in the garden. After school, she likes reading books and playing badminton with her friends.",
+    questions: [
+      { id: "Question 5", kind: "true_false", text: "Lan lives in a big city.", points: 0.5, level: "Thông hiểu", skill: "Reading", objective: "Đọc hiểu thông tin chi tiết" },
+      { id: "Question 6", kind: "gap_fill", text: "After school, Lan likes reading books and playing _____.", points: 0.5, level: "Thông hiểu", skill: "Reading", objective: "Đọc hiểu thông tin chi tiết" },
+    ],
+  },
+  {
+    section: "III. WRITING",
+    questions: [
+      { id: "Question 7", kind: "sentence_transformation", text: "It is raining now.", sentenceStart: "It has", points: 1, level: "Vận dụng", skill: "Writing", objective: "Viết lại câu với thì hiện tại hoàn thành tiếp diễn" },
+      { id: "Question 8", kind: "open_writing", text: "Write a short paragraph about your family.", wordLimit: 80, points: 2, level: "Vận dụng cao", skill: "Writing", objective: "Viết đoạn văn ngắn về gia đình" },
+    ],
+  },
+];
+
+const MOCK_ANSWERS: AnswerKey[] = [
+  { questionId: "Question 1", answer: "C", pointsDetail: "0.25 pts" },
+  { questionId: "Question 2", answer: "B", pointsDetail: "0.25 pts" },
+  { questionId: "Question 3", answer: "C", pointsDetail: "0.25 pts" },
+  { questionId: "Question 4", answer: "A", pointsDetail: "0.25 pts" },
+  { questionId: "Question 5", answer: "False", pointsDetail: "0.5 pts" },
+  { questionId: "Question 6", answer: "badminton", pointsDetail: "0.5 pts" },
+  { questionId: "Question 7", answer: "It has been raining.", pointsDetail: "1 pts" },
+  { questionId: "Question 8", answer: "Content 1 pt, language 0.5 pt, organisation 0.5 pt.", pointsDetail: "2 pts" },
+];
+
+const MOCK_PLAN = `Structural plan (mock):
+1. Multiple choice: pronunciation, grammar and communication, 4 questions.
+2. Reading: one short passage with 2 questions.
+3. Writing: one sentence transformation and one short paragraph.`;
+
+export const mockGenerate = (request: { contents: string; json?: boolean }): string => {
+  const prompt = request.contents;
+  if (!request.json) return MOCK_PLAN;
+
+  const questionId = prompt.match(/Keep "id" exactly "([^"]+)"/)?.[1];
+  if (questionId) {
+    const question = choice(questionId, "I _____ to school by bike every day.", ["go", "goes", "going", "went"], "Nhận biết", "Grammar", "Thì hiện tại đơn");
+    return JSON.stringify({ question, answer: { questionId, answer: "A", pointsDetail: "0.25 pts" } });
+  }
+
+  const sectionIds = prompt.match(/use these question ids in order: ([^\n]+?)\.\s*\n/)?.[1];
+  if (sectionIds) {
+    const ids = sectionIds.split(",").map(id => id.trim());
+    const template = MOCK_SECTIONS[0].questions;
+    const questions = ids.map((id, i) => ({ ...template[i % template.length], id }));
+    const answers = ids.map((id, i) => ({ ...MOCK_ANSWERS[i % template.length], questionId: id }));
+    return JSON.stringify({ section: { ...MOCK_SECTIONS[0], questions }, answers });
+  }
+
+  if (prompt.includes("The previous output was cut off")) return JSON.stringify({ content: [], answers: [] });
+
+  return JSON.stringify({ examTitle: "KIỂM TRA TIẾNG ANH (MOCK)", duration: "45 minutes", content: MOCK_SECTIONS, answers: MOCK_ANSWERS });
+};
@@ -0,0 +1,114 @@
+import { ExamSection } from "../types";
+import { balanceInline } from "./inlineMarkup";
+
+/**
+ * A4 layout of the preview and the printout: 20 mm margins all round and a footer line
+ * at the bottom of the text area. The preview measures every block as it is rendered and
+ * breaks the pages from those heights, so the printout matches it page for page.
+ *
+ * The Word export does not reuse these breaks: Word lays the paper out with its own fonts
+ * and spacing, and shows its own page number and count through fields. Its count is right
+ * for the .docx but can differ from the preview's.
+ */
+export const PAGE_MARGIN_MM = 20;
+export const PAGE_FOOTER_MM = 10;
+/** Height left for the blocks of one page, 1 mm short so rounding never spills a page. */
+export const PAGE_BODY_MM = 297 - 2 * PAGE_MARGIN_MM - PAGE_FOOTER_MM - 1;
+
+// Sentences of a passage are grouped into pieces of about this length, where a page may break
+const PASSAGE_PIECE_CHARS = 240;
+
+export type PageBlock =
+  | { kind: "header" }
+  | { kind: "section"; sIdx: number }
+  // `joinsNext`: the next piece continues the same paragraph; `endsPassage`: last piece of the passage
+  | { kind: "passage"; sIdx: number; text: string; joinsNext: boolean; endsPassage: boolean }
+  | { kind: "question"; sIdx: number; qIdx: number }
+  | { kind: "end" };
+
+export interface ExamPage {
+  blocks: PageBlock[];
+}
+
+/** "(Đề thi có 4 trang)" */
+export const pageCountLabel = (pageCount: number) => `(Đề thi có ${pageCount} trang)`;
+
+/** Footer text before the page number: "Mã đề 101 – " on a numbered version. */
+export const pageFooterPrefix = (code?: string) => (code ? `Mã đề ${code} – ` : "");
+
+/**
+ * A paragraph cut at sentence ends into pieces of about PASSAGE_PIECE_CHARS. A sentence
+ * may end inside markup ("... <u>end.</u> Next"), so closing tags stay with their sentence.
+ */
+const paragraphPieces = (paragraph: string): string[] => {
+  const pieces: string[] = [];
+  let piece = "";
+  paragraph.split(/(?<=[.!?…](?:<\/[ubi]>)*)\s+/i).filter(Boolean).forEach(sentence => {
+    if (piece && piece.length + 1 + sentence.length > PASSAGE_PIECE_CHARS) {
+      pieces.push(piece);
+      piece = sentence;
+    } else {
+      piece = piece ? `${piece} ${sentence}` : sentence;
+    }
+  });
+  return [...pieces, piece];
+};
+
+// Markup left open at the end of a piece is carried over, so an underline cut by a page break continues
+const passageBlocks = (text: string, sIdx: number): PageBlock[] => {
+  const paragraphs = text.split("\n").map(paragraphPieces);
+  const texts = balanceInline(paragraphs.flat());
+  let n = 0;
+  return paragraphs.flatMap((pieces, p) => pieces.map((_, i) => ({
+    kind: "passage" as const,
+    sIdx,
+    text: texts[n++],
+    joinsNext: i < pieces.length - 1,
+    endsPassage: p === paragraphs.length - 1 && i === pieces.length - 1,
+  })));
+};
+
+/** The paper as blocks in print order; long passages are cut so a page can break inside them. */
+export const paperBlocks = (content: ExamSection[]): PageBlock[] => [
+  { kind: "header" },
+  ...(content || []).flatMap((section, sIdx) => [
+    { kind: "section" as const, sIdx },
+    ...(section.text?.trim() ? passageBlocks(section.text, sIdx) : []),
+    ...(section.questions || []).map((_, qIdx) => ({ kind: "question" as const, sIdx, qIdx })),
+  ]),
+  { kind: "end" },
+];
+
+/**
+ * Fills pages with the blocks, given the height of each. A section title always stays
+ * with the block after it, and a block taller than a page starts a page of its own.
+ */
+export const paginateBlocks = (blocks: PageBlock[], heights: number[], pageHeight: number): ExamPage[] => {
+  const pages: ExamPage[] = [{ blocks: [] }];
+  let used = 0;
+
+  blocks.forEach((block, i) => {
+    const current = pages[pages.length - 1];
+    const needed = heights[i] + (block.kind === "section" && i + 1 < blocks.length ? heights[i + 1] : 0);
+    const afterTitle = current.blocks[current.blocks.length - 1]?.kind === "section";
+    if (used > 0 && !afterTitle && used + Math.min(needed, pageHeight) > pageHeight) {
+      pages.push({ blocks: [] });
+      used = 0;
+    }
+    pages[pages.length - 1].blocks.push(block);
+    used += heights[i];
+  });
+  return pages;
+};
+
+/** Pieces of one paragraph that ended up on the same page, joined back into one block. */
+export const joinPassagePieces = (blocks: PageBlock[]): PageBlock[] =>
+  blocks.reduce<PageBlock[]>((joined, block) => {
+    const previous = joined[joined.length - 1];
+    if (block.kind === "passage" && previous?.kind === "passage" && previous.joinsNext) {
+      joined[joined.length - 1] = { ...block, text: `${previous.text} ${block.text}` };
+    } else {
+      joined.push(block);
+    }
+    return joined;
+  }, []);
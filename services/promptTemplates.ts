@@ -0,0 +1,207 @@
+import { PromptTemplateId, PromptTemplateVersion } from "../types";
+import { GRADE_PROFILE_VARIABLES } from "./gradeProfiles";
+
+/*
+ * Prompts the head of department can reword in Settings. Each template is plain text with
+ * {{variable}} placeholders; every save adds a version, and the newest version is used.
+ */
+
+export interface PromptTemplateDef {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  variables: string[];
+  defaultText: string;
+}
+
+// Available to every template: the form's choices and the grade's profile
+const FORM_VARIABLES = ["gradeLevel", "level", "examType", "topic", "trendingTopic", ...GRADE_PROFILE_VARIABLES];
+
+const DEFAULT_STEP1 = `Role: Senior Assessment Specialist.
+Analyze these requirements and create a logic-only blueprint.
+
+STRICT DIFFICULTY CONTROL:
+{{systemInstruction}}
+
+Target Structure: {{structure}}
+Matrix: {{matrix}}
+Spec: {{spec}}
+Training Context (Excerpt): {{reference}}
+
+Task:
+1. Extract number of questions per section.
+2. Define grammar/vocab focus per section.
+3. Generate a High-Quality Reading Passage (concise, {{passageLength}}) appropriate for {{gradeLevel}}.
+4. Provide a structural plan. No full JSON yet.
+`;
+
+const DEFAULT_STEP2 = `Role: Professional English Teacher.
+Create the FINAL EXAM JSON based on this plan: {{plan}}
+
+CRITICAL DIFFICULTY ENFORCEMENT for {{gradeLevel}}:
+{{systemInstruction}}
+
+CRITICAL RULES for JSON Size Efficiency:
+1. DO NOT repeat the reading passage or long descriptions inside individual 'questions'.
+2. Put shared text ONLY in the section's 'text' field.
+3. Keep question texts concise.
+4. Ensure the JSON is valid and complete.
+5. {{metadataRule}}
+6. {{kindRule}}
+7. {{markupRule}}
+
+Exam Metadata: {{level}} - {{gradeLevel}}, Time: {{examType}}.
+Formatting: Use Vietnamese headers ("I. PHẦN TRẮC NGHIỆM").
+
+Return ONLY JSON with this structure:
+{
+  "examTitle": "string",
+  "duration": "string",
+  "content": [
+    {
+      "section": "string",
+      "text": "string (shared passage here)",
+      "questions": [{ "id": "Question 1", "kind": "multiple_choice", "text": "concise question", "points": 0.2, "level": "Nhận biết", "skill": "Grammar", "objective": "...", "parts": [{"label": "A.", "content": "..."}] }]
+    }
+  ],
+  "answers": [{ "questionId": "Question 1", "answer": "A", "pointsDetail": "0.2 pts" }]
+}
+`;
+
+const DEFAULT_PRIMARY = `**For PRIMARY ({{gradeLevel}}):**
+- Vocabulary: Basic {{vocabulary}}
+- Grammar: {{grammar}}, basic sentence structures
+- Reading passages: {{passageLength}}, simple topics (family, school, animals, daily activities)
+- Question types: {{questionTypes}}
+- Picture items: describe each picture the teacher must attach in brackets in the question text, e.g. "[Picture: a red apple]"
+- Language complexity: {{cefr}} CEFR level
+- Sentence length: {{sentenceLength}}
+- Instructions: Simple and clear Vietnamese translations provided
+
+Example differentiation:
+- Grade 3: "The cat is on the table." (Simple present, basic vocabulary)
+`;
+
+const DEFAULT_MIDDLE = `**For MIDDLE SCHOOL ({{gradeLevel}}):**
+- Vocabulary: {{vocabulary}}, topic-based vocabulary
+- Grammar: {{grammar}}
+- Reading passages: {{passageLength}}, varied topics (culture, environment, technology basics)
+- Question types: {{questionTypes}}
+- Language complexity: {{cefr}} CEFR level
+- Sentence length: {{sentenceLength}}
+- Mix of concrete and some abstract concepts
+
+Example differentiation:
+- Grade 7: "If I had more time, I would visit my grandparents." (Second conditional, family relationships)
+`;
+
+const DEFAULT_HIGH = `**For HIGH SCHOOL ({{gradeLevel}}):**
+- Vocabulary: {{vocabulary}}, academic and specialized vocabulary
+- Grammar: {{grammar}}
+- Reading passages: {{passageLength}}, academic topics (science, social issues, literature analysis)
+- Question types: {{questionTypes}}, including inference questions
+- Language complexity: {{cefr}} CEFR level
+- Sentence length: {{sentenceLength}}
+- Abstract thinking and critical analysis required
+
+Example differentiation:
+- Grade 11: "Despite numerous challenges, the environmental conservation movement has gained significant momentum globally." (Complex sentence, academic vocabulary)
+`;
+
+export const PROMPT_TEMPLATES: PromptTemplateDef[] = [
+  {
+    id: "step1",
+    label: "Step 1: Plan",
+    description: "Reads the matrix, spec and training files and writes the structural plan.",
+    variables: [...FORM_VARIABLES, "systemInstruction", "difficultyRule", "structure", "matrix", "spec", "reference"],
+    defaultText: DEFAULT_STEP1,
+  },
+  {
+    id: "step2",
+    label: "Step 2: Exam content",
+    description: "Writes the exam JSON from the plan.",
+    variables: [...FORM_VARIABLES, "systemInstruction", "difficultyRule", "plan", "metadataRule", "kindRule", "markupRule"],
+    defaultText: DEFAULT_STEP2,
+  },
+  {
+    id: "difficultyPrimary",
+    label: "Difficulty: Primary",
+    description: "Difficulty rules for primary grades, inserted as {{difficultyRule}}. The limits come from the grade profile.",
+    variables: FORM_VARIABLES,
+    defaultText: DEFAULT_PRIMARY,
+  },
+  {
+    id: "difficultyMiddle",
+    label: "Difficulty: Middle School",
+    description: "Difficulty rules for middle school grades, inserted as {{difficultyRule}}. The limits come from the grade profile.",
+    variables: FORM_VARIABLES,
+    defaultText: DEFAULT_MIDDLE,
+  },
+  {
+    id: "difficultyHigh",
+    label: "Difficulty: High School",
+    description: "Difficulty rules for high school grades, inserted as {{difficultyRule}}. The limits come from the grade profile.",
+    variables: FORM_VARIABLES,
+    defaultText: DEFAULT_HIGH,
+  },
+];
+
+export const getTemplateDef = (id: PromptTemplateId): PromptTemplateDef =>
+  PROMPT_TEMPLATES.find(t => t.id === id)!;
+
+const TEMPLATES_KEY = "prompt_templates";
+const MAX_VERSIONS = 30;
+
+type StoredTemplates = Partial<Record<PromptTemplateId, PromptTemplateVersion[]>>;
+
+const loadAll = (): StoredTemplates => {
+  try {
+    return JSON.parse(localStorage.getItem(TEMPLATES_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+/** Saved versions of a template, oldest first. Empty while the default is in use. */
+export const getTemplateHistory = (id: PromptTemplateId): PromptTemplateVersion[] => loadAll()[id] || [];
+
+/** The text generation uses: the newest saved version, or the built-in default. */
+export const getPromptTemplate = (id: PromptTemplateId): string => {
+  const history = getTemplateHistory(id);
+  return history.length > 0 ? history[history.length - 1].text : getTemplateDef(id).defaultText;
+};
+
+export const savePromptTemplate = (id: PromptTemplateId, text: string, note?: string): PromptTemplateVersion[] => {
+  const all = loadAll();
+  const history = [...(all[id] || []), { text, savedAt: Date.now(), ...(note ? { note } : {}) }].slice(-MAX_VERSIONS);
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify({ ...all, [id]: history }));
+  return history;
+};
+
+/** Goes back to the built-in text, kept as a new version so the edits stay in the history. */
+export const restoreDefaultTemplate = (id: PromptTemplateId): PromptTemplateVersion[] =>
+  savePromptTemplate(id, getTemplateDef(id).defaultText, "Default restored");
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Fills {{name}} placeholders; unknown names, including inherited ones like {{constructor}}, are left as they are. */
+export const renderTemplate = (text: string, variables: Record<string, string>): string =>
+  text.replace(PLACEHOLDER, (match, name) => (Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match));
+
+const usedVariables = (text: string) => new Set(Array.from(text.matchAll(PLACEHOLDER), m => m[1]));
+
+/**
+ * Grade profile placeholders the built-in text uses but this text does not. A version saved
+ * before the profiles existed has the limits written out, so profile edits never reach it.
+ */
+export const missingProfileVariables = (id: PromptTemplateId, text: string): string[] => {
+  const used = usedVariables(text);
+  const expected = usedVariables(getTemplateDef(id).defaultText);
+  return GRADE_PROFILE_VARIABLES.filter(name => expected.has(name) && !used.has(name));
+};
+
+/** Placeholders in the text that the template does not provide, e.g. a misspelt {{grade}}. */
+export const unknownVariables = (id: PromptTemplateId, text: string): string[] => {
+  const known = new Set(getTemplateDef(id).variables);
+  return Array.from(usedVariables(text)).filter(name => !known.has(name));
+};
@@ -0,0 +1,223 @@
+import { AnswerKey, BankPassage, BankQuestion, ExamConfig, ExamData, ExamSection } from "../types";
+import { isMultipleChoice } from "./examUtils";
+import { normalizeLevel } from "./matrixService";
+import { renumberQuestions } from "./examEditor";
+import { formatPoints } from "./scoringService";
+import { run, putAll, newId, BANK_STORE, PASSAGE_STORE } from "./localDb";
+import { getGradeProfile } from "./gradeProfiles";
+
+export const BANK_SKILLS = ["Grammar", "Vocabulary", "Reading", "Pronunciation", "Writing", "Listening"];
+export const CEFR_LEVELS = ["Pre-A1", "A1", "A2", "B1", "B2", "C1"];
+
+const SKILL_PATTERNS: [RegExp, string][] = [
+  [/pronunc|stress|sound|phonetic|underlined part/i, "Pronunciation"],
+  [/listen/i, "Listening"],
+  [/read|passage|cloze|text below/i, "Reading"],
+  [/vocab|word form|synonym|antonym|closest|opposite|collocation|meaning/i, "Vocabulary"],
+  [/writ|rewrite|sentence transformation|rearrange|combine/i, "Writing"],
+  [/grammar|tense|verb|structure|correct form|error/i, "Grammar"],
+];
+
+/**
+ * Best guess of the bank skill from the question's own skill tag, then the section title.
+ */
+export const inferSkill = (questionSkill: string | undefined, sectionTitle: string, isChoice: boolean): string => {
+  for (const source of [questionSkill || "", sectionTitle]) {
+    const hit = SKILL_PATTERNS.find(([pattern]) => pattern.test(source));
+    if (hit) return hit[1];
+  }
+  return isChoice ? "Grammar" : "Writing";
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+const fingerprint = (q: BankQuestion["question"]) => normalize([q.text, ...(q.parts || []).map(p => p.content)].join("|"));
+
+export const listBankQuestions = (): Promise<BankQuestion[]> =>
+  run<BankQuestion[]>(BANK_STORE, "readonly", store => store.getAll());
+
+export const listBankPassages = (): Promise<BankPassage[]> =>
+  run<BankPassage[]>(PASSAGE_STORE, "readonly", store => store.getAll());
+
+export const updateBankQuestion = (entry: BankQuestion): Promise<void> =>
+  run<void>(BANK_STORE, "readwrite", store => store.put(entry));
+
+export const deleteBankQuestion = (id: string): Promise<void> =>
+  run<void>(BANK_STORE, "readwrite", store => store.delete(id));
+
+/**
+ * Copies every question of an exam into the bank with its answer key and tags.
+ * Section passages are stored once and linked from their questions; a passage already in
+ * the bank (same text) is reused. Questions already in the bank (same text and options)
+ * are skipped. Returns the number of new entries.
+ */
+export const addExamToBank = async (exam: ExamData, config: ExamConfig | null, sourceExamId?: string): Promise<number> => {
+  const existing = new Set((await listBankQuestions()).map(e => fingerprint(e.question)));
+  const knownPassages = new Map((await listBankPassages()).map(p => [normalize(p.text), p.id]));
+  const answerById = new Map(exam.answers.map(a => [a.questionId, a]));
+  const grade = config?.gradeLevel || "";
+  const now = Date.now();
+
+  const passages: BankPassage[] = [];
+  const entries: BankQuestion[] = [];
+
+  exam.content.forEach(section => {
+    const fresh = section.questions.filter(q => !existing.has(fingerprint(q)));
+    if (fresh.length === 0) return;
+
+    let passageId: string | undefined;
+    if (section.text?.trim()) {
+      passageId = knownPassages.get(normalize(section.text));
+      if (!passageId) {
+        passageId = newId();
+        knownPassages.set(normalize(section.text), passageId);
+        passages.push({ id: passageId, section: section.section, text: section.text, source: section.source });
+      }
+    }
+
+    fresh.forEach(q => {
+      existing.add(fingerprint(q));
+      const isChoice = isMultipleChoice(q);
+      entries.push({
+        id: newId(),
+        question: q,
+        answer: answerById.get(q.id),
+        section: section.section,
+        passageId,
+        tags: {
+          grade,
+          skill: inferSkill(q.skill, section.section, isChoice),
+          cefr: getGradeProfile(grade)?.cefr || "",
+          level: normalizeLevel(q.level),
+          topic: config?.topic || "",
+        },
+        sourceExamId,
+        createdAt: now,
+      });
+    });
+  });
+
+  await putAll({ [BANK_STORE]: entries, [PASSAGE_STORE]: passages });
+  return entries.length;
+};
+
+export interface BankFilter {
+  query: string;
+  grade: string;
+  skill: string;
+  cefr: string;
+  level: string;
+  topic: string;
+}
+
+export const EMPTY_BANK_FILTER: BankFilter = { query: "", grade: "", skill: "", cefr: "", level: "", topic: "" };
+
+export const filterBank = (entries: BankQuestion[], filter: BankFilter): BankQuestion[] => {
+  const query = filter.query.trim().toLowerCase();
+  const topic = filter.topic.trim().toLowerCase();
+  return entries.filter(e => {
+    const { tags } = e;
+    if (filter.grade && tags.grade !== filter.grade) return false;
+    if (filter.skill && tags.skill !== filter.skill) return false;
+    if (filter.cefr && tags.cefr !== filter.cefr) return false;
+    if (filter.level && tags.level !== filter.level) return false;
+    if (topic && !tags.topic.toLowerCase().includes(topic)) return false;
+    if (!query) return true;
+    return fingerprint(e.question).includes(query) || e.section.toLowerCase().includes(query);
+  });
+};
+
+export interface AssemblyRule {
+  filter: BankFilter;
+  count: number;
+  points: number; // per question
+}
+
+export interface AssemblyResult {
+  exam: ExamData;
+  shortfalls: string[]; // rules that could not be filled
+}
+
+const ruleLabel = (rule: AssemblyRule) =>
+  [rule.filter.skill, rule.filter.level, rule.filter.cefr, rule.filter.grade, rule.filter.topic].filter(Boolean).join(" / ") || "Any question";
+
+const shuffled = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Builds a new exam from the bank without any AI call. Each rule draws `count` random
+ * questions matching its filter. A passage and all of its questions are drawn as one unit,
+ * even the questions the filter does not match, and printed as one section; only a rule's
+ * first pick may overshoot its count. Questions whose passage is missing are left out.
+ */
+export const assembleExam = (
+  entries: BankQuestion[],
+  passages: BankPassage[],
+  rules: AssemblyRule[],
+  meta: { examTitle: string; duration: string }
+): AssemblyResult => {
+  const passageById = new Map(passages.map(p => [p.id, p]));
+  // Passages are keyed by text, so copies stored before passages were deduplicated stay together
+  const passageKey = (e: BankQuestion) => {
+    const passage = e.passageId ? passageById.get(e.passageId) : undefined;
+    return passage && `passage:${normalize(passage.text)}`;
+  };
+  const byPassage = new Map<string, BankQuestion[]>();
+  entries.forEach(e => {
+    const key = passageKey(e);
+    if (key) byPassage.set(key, [...(byPassage.get(key) || []), e]);
+  });
+
+  const used = new Set<string>();
+  const shortfalls: string[] = [];
+  const sections = new Map<string, ExamSection>();
+  const answers: AnswerKey[] = [];
+  let tempId = 0;
+
+  rules.forEach(rule => {
+    const matches = filterBank(entries, rule.filter).filter(e => !used.has(e.id) && (!e.passageId || passageKey(e)));
+
+    // Standalone questions are units of one; passage questions form one unit per passage
+    const units = new Map<string, BankQuestion[]>();
+    matches.forEach(e => {
+      const key = passageKey(e);
+      units.set(key || e.id, key ? byPassage.get(key)!.filter(x => !used.has(x.id)) : [e]);
+    });
+
+    let picked = 0;
+    for (const unit of shuffled(Array.from(units.values()))) {
+      if (picked >= rule.count) break;
+      if (picked > 0 && picked + unit.length > rule.count && unit.length > 1) continue;
+
+      unit.forEach(e => {
+        used.add(e.id);
+        tempId++;
+        const id = `Question ${tempId}`;
+        const passage = e.passageId ? passageById.get(e.passageId) : undefined;
+        // Group by passage, or by instruction line for standalone questions
+        const sectionKey = passageKey(e) || `section:${e.section}`;
+        let section = sections.get(sectionKey);
+        if (!section) {
+          section = { section: passage?.section || e.section, text: passage?.text, source: passage?.source, questions: [] };
+          sections.set(sectionKey, section);
+        }
+        section.questions.push({ ...e.question, id, points: rule.points });
+        answers.push(e.answer
+          ? { ...e.answer, questionId: id, pointsDetail: formatPoints(rule.points) }
+          : { questionId: id, answer: "", pointsDetail: formatPoints(rule.points) });
+      });
+      picked += unit.length;
+    }
+
+    if (picked < rule.count) shortfalls.push(`${ruleLabel(rule)}: only ${picked} of ${rule.count} questions available`);
+  });
+
+  const exam = renumberQuestions({ examTitle: meta.examTitle, duration: meta.duration, content: Array.from(sections.values()), answers });
+  return { exam, shortfalls };
+};
@@ -0,0 +1,93 @@
+import { ExamSection, Question, QuestionKind, QuestionPart } from "../types";
+import { isMultipleChoice, parseAnswerLetter } from "./examUtils";
+
+export const QUESTION_KINDS: { id: QuestionKind; label: string; shape: string }[] = [
+  { id: "multiple_choice", label: "Multiple choice", shape: `"parts": 4 options labelled "A."-"D."; answer is the letter` },
+  { id: "error_identification", label: "Error identification", shape: `"text" is the sentence; "parts": the 4 underlined words exactly as written in "text", in order, labelled "A."-"D."; answer is the letter of the error` },
+  { id: "gap_fill", label: "Gap fill", shape: `"text" contains the blank "_____"; no parts; answer is the missing word(s)` },
+  { id: "true_false", label: "True / False / Not Given", shape: `"text" is the statement; no parts; answer is "True", "False" or "Not Given"` },
+  { id: "matching", label: "Matching", shape: `"parts": numbered items labelled "1.", "2."...; "matchOptions": choices labelled "a.", "b."...; answer like "1-c, 2-a"` },
+  { id: "word_form", label: "Word form", shape: `"text" contains the blank; "baseWord": the word to change, in capitals; answer is the correct form` },
+  { id: "sentence_transformation", label: "Sentence transformation", shape: `"text" is the original sentence; "sentenceStart": the first words of the rewrite; answer is the full rewritten sentence` },
+  { id: "sentence_ordering", label: "Sentence ordering", shape: `"parts": the jumbled words/phrases labelled "a.", "b."...; answer is the correct sentence` },
+  { id: "open_writing", label: "Open writing", shape: `"text" is the task; "wordLimit": expected number of words; answer is the marking guide` },
+];
+
+export const QUESTION_KIND_IDS = QUESTION_KINDS.map(k => k.id);
+
+export const TRUE_FALSE_CHOICES = ["True", "False", "Not Given"];
+
+/** The declared kind, or multiple choice for untyped questions with A-D options. */
+export const questionKind = (q: Question): QuestionKind | undefined =>
+  q.kind || (isMultipleChoice(q) ? "multiple_choice" : undefined);
+
+export interface TextSegment {
+  text: string;
+  letter?: string; // set on an underlined error-identification segment
+}
+
+/**
+ * Splits an error-identification sentence into plain text and its underlined A-D
+ * segments, found in order. Returns null when a segment is not in the sentence.
+ */
+export const errorSegments = (q: Question): TextSegment[] | null => {
+  if (!q.parts?.length) return null;
+  const segments: TextSegment[] = [];
+  let rest = q.text;
+  for (const part of q.parts) {
+    const at = part.content ? rest.indexOf(part.content) : -1;
+    if (at === -1) return null;
+    if (at > 0) segments.push({ text: rest.slice(0, at) });
+    segments.push({ text: part.content, letter: part.label.replace(/[^A-Za-z]/g, "") });
+    rest = rest.slice(at + part.content.length);
+  }
+  if (rest) segments.push({ text: rest });
+  return segments;
+};
+
+const TRUE_FALSE_SHORT: Record<string, string> = { t: "True", f: "False", ng: "Not Given", "not given": "Not Given", true: "True", false: "False" };
+
+/**
+ * Key as printed in the rubric, with the context each kind needs: the option text
+ * after a letter, the base word of a word-form item, the given start of a rewrite.
+ */
+export const formatKeyAnswer = (q: Question | undefined, answer: string): string => {
+  if (!q) return answer;
+  const trimmed = answer.trim();
+  switch (questionKind(q)) {
+    case "multiple_choice":
+    case "error_identification": {
+      const letter = parseAnswerLetter(trimmed);
+      const part = letter ? q.parts?.find(p => p.label.startsWith(letter)) : undefined;
+      return part && trimmed.length <= 3 ? `${letter}. ${part.content}` : answer;
+    }
+    case "true_false":
+      return TRUE_FALSE_SHORT[trimmed.toLowerCase().replace(/\.$/, "")] || answer;
+    case "word_form":
+      return q.baseWord && !trimmed.includes("→") ? `${q.baseWord.toUpperCase()} → ${trimmed}` : answer;
+    case "sentence_transformation": {
+      const start = q.sentenceStart?.replace(/[.…\s]+$/, "").trim();
+      return start && !trimmed.toLowerCase().startsWith(start.toLowerCase()) ? `${start} ${trimmed}` : answer;
+    }
+    default:
+      return answer;
+  }
+};
+
+/** The question an answer-key entry belongs to. */
+export const findQuestion = (content: ExamSection[], id: string): Question | undefined =>
+  (content || []).flatMap(s => s.questions || []).find(q => q.id === id);
+
+/** Writing lines printed under an open writing task. */
+export const writingLines = (q: Question): number =>
+  Math.min(12, Math.max(3, Math.ceil((q.wordLimit || 40) / 12)));
+
+/** "a. content" lines for editing a list of parts in one field. */
+export const formatPartLines = (parts: QuestionPart[] | undefined): string =>
+  (parts || []).map(p => `${p.label} ${p.content}`.trim()).join("\n");
+
+export const parsePartLines = (text: string): QuestionPart[] =>
+  text.split("\n").map(line => line.trim()).filter(Boolean).map(line => {
+    const match = line.match(/^([A-Za-z0-9]{1,2}[.)])\s*(.*)$/);
+    return match ? { label: match[1], content: match[2] } : { label: "", content: line };
+  });
@@ -0,0 +1,58 @@
+import { ExamTemplate, SchoolProfile } from "../types";
+import { run, TEMPLATE_STORE } from "./localDb";
+
+const PROFILE_KEY = "school_profile";
+const TEMPLATE_ID = "exam";
+
+export const DEFAULT_SCHOOL_PROFILE: SchoolProfile = {
+  department: "SỞ GIÁO DỤC VÀ ĐÀO TẠO",
+  school: "",
+  examName: "",
+  schoolYear: "",
+  signatures: "",
+};
+
+export const loadSchoolProfile = (): SchoolProfile => {
+  try {
+    const stored = localStorage.getItem(PROFILE_KEY);
+    return stored ? { ...DEFAULT_SCHOOL_PROFILE, ...JSON.parse(stored) } : DEFAULT_SCHOOL_PROFILE;
+  } catch {
+    return DEFAULT_SCHOOL_PROFILE;
+  }
+};
+
+export const saveSchoolProfile = (profile: SchoolProfile) => {
+  localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+};
+
+export interface Signer {
+  title: string;
+  name: string;
+}
+
+/**
+ * Parses the signature block, one signer per line as "TITLE | Name" (name optional).
+ */
+export const parseSigners = (signatures: string): Signer[] =>
+  signatures
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const [title, ...name] = line.split("|");
+      return { title: title.trim(), name: name.join("|").trim() };
+    });
+
+/** "KIỂM TRA CUỐI HỌC KÌ I - NĂM HỌC 2025 - 2026", or whichever half is filled in. */
+export const examPeriodLine = (profile: SchoolProfile): string =>
+  [profile.examName.trim(), profile.schoolYear.trim() && `NĂM HỌC ${profile.schoolYear.trim()}`].filter(Boolean).join(" - ");
+
+export const getExamTemplate = (): Promise<ExamTemplate | undefined> =>
+  run<ExamTemplate | undefined>(TEMPLATE_STORE, "readonly", store => store.get(TEMPLATE_ID));
+
+export const saveExamTemplate = (file: File): Promise<void> =>
+  run<void>(TEMPLATE_STORE, "readwrite", store =>
+    store.put({ id: TEMPLATE_ID, fileName: file.name, file, uploadedAt: Date.now() } as ExamTemplate));
+
+export const deleteExamTemplate = (): Promise<void> =>
+  run<void>(TEMPLATE_STORE, "readwrite", store => store.delete(TEMPLATE_ID));
@@ -0,0 +1,108 @@
+import { ExamData, Question } from "../types";
+import { normalizeLevel } from "./matrixService";
+
+export const TARGET_TOTAL = 10;
+
+export type RebalanceRule = "equal" | "section" | "level";
+
+export interface ScoreSummary {
+  sectionTotals: number[];
+  total: number;
+  isOnScale: boolean;
+}
+
+/** Default weights (%) per cognitive level used by the 2018 curriculum matrices. */
+export const DEFAULT_LEVEL_WEIGHTS: Record<string, number> = {
+  "Nhận biết": 40,
+  "Thông hiểu": 30,
+  "Vận dụng": 20,
+  "Vận dụng cao": 10,
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const formatPoints = (points: number) => `${round2(points)} pts`;
+
+export const computeScoreSummary = (data: ExamData): ScoreSummary => {
+  const sectionTotals = data.content.map(s => round2(s.questions.reduce((acc, q) => acc + (q.points || 0), 0)));
+  const total = round2(sectionTotals.reduce((acc, t) => acc + t, 0));
+  return { sectionTotals, total, isOnScale: Math.abs(total - TARGET_TOTAL) < 0.001 };
+};
+
+/**
+ * Splits `amount` over `count` items in steps of 0.05, putting the rounding
+ * remainder on the last items so the sum is exact.
+ */
+const splitEvenly = (amount: number, count: number): number[] => {
+  if (count === 0) return [];
+  const step = 0.05;
+  const base = Math.floor(amount / count / step) * step;
+  const result = Array(count).fill(round2(base));
+  let remainder = round2(amount - base * count);
+  for (let i = count - 1; remainder > 0.0001; i = (i - 1 + count) % count) {
+    const add = Math.min(step, remainder);
+    result[i] = round2(result[i] + add);
+    remainder = round2(remainder - add);
+  }
+  return result;
+};
+
+/**
+ * Turns group weights into point budgets that add up to exactly `total`. Blank or negative
+ * weights count as 0; when none is positive every group gets the same budget.
+ */
+const budgetsFromWeights = (weights: number[], total: number): number[] => {
+  const positive = weights.map(w => (Number.isFinite(w) ? Math.max(0, w) : 0));
+  const sum = positive.reduce((acc, w) => acc + w, 0);
+  if (sum === 0) return budgetsFromWeights(weights.map(() => 1), total);
+  const budgets = positive.map(w => round2((w / sum) * total));
+  const drift = round2(total - budgets.reduce((acc, b) => acc + b, 0));
+  const last = budgets.map((b, i) => (b > 0 ? i : -1)).filter(i => i !== -1).pop();
+  if (last !== undefined) budgets[last] = round2(budgets[last] + drift);
+  return budgets;
+};
+
+/**
+ * Redistributes points so the exam totals exactly 10.
+ * - equal: every question gets the same share
+ * - section: each section gets its weight (%), split equally inside the section
+ * - level: each cognitive level gets its weight (%), split equally inside the level
+ * Answer keys get a matching pointsDetail.
+ */
+export const rebalancePoints = (data: ExamData, rule: RebalanceRule, weights: Record<string, number> = {}): ExamData => {
+  const questions: { sIdx: number; qIdx: number; q: Question }[] = [];
+  data.content.forEach((s, sIdx) => s.questions.forEach((q, qIdx) => questions.push({ sIdx, qIdx, q })));
+  if (questions.length === 0) return data;
+
+  // Group questions, then give each group a budget
+  const groupOf = (item: typeof questions[number]) =>
+    rule === "equal" ? "all" : rule === "section" ? String(item.sIdx) : normalizeLevel(item.q.level);
+  const groups = Array.from(new Set(questions.map(groupOf)));
+  const budgets = budgetsFromWeights(groups.map(g => (rule === "equal" ? 1 : weights[g] ?? 0)), TARGET_TOTAL);
+
+  const newPoints = new Map<string, number>();
+  groups.forEach((group, gIdx) => {
+    const members = questions.filter(item => groupOf(item) === group);
+    const shares = splitEvenly(budgets[gIdx], members.length);
+    members.forEach((item, i) => newPoints.set(`${item.sIdx}:${item.qIdx}`, shares[i]));
+  });
+
+  return applyPoints(data, (sIdx, qIdx) => newPoints.get(`${sIdx}:${qIdx}`) ?? 0);
+};
+
+/**
+ * Sets question points and rewrites pointsDetail on the matching answer keys.
+ */
+const applyPoints = (data: ExamData, pointsFor: (sIdx: number, qIdx: number) => number): ExamData => {
+  const detailById = new Map<string, string>();
+  const content = data.content.map((s, sIdx) => ({
+    ...s,
+    questions: s.questions.map((q, qIdx) => {
+      const points = pointsFor(sIdx, qIdx);
+      detailById.set(q.id, formatPoints(points));
+      return { ...q, points };
+    }),
+  }));
+  const answers = data.answers.map(a => (detailById.has(a.questionId) ? { ...a, pointsDetail: detailById.get(a.questionId)! } : a));
+  return { ...data, content, answers };
+};
@@ -0,0 +1,140 @@
+import { AnswerKey, ExamSection } from "../types";
+import { ValidationIssue, validateAnswerKey, validateSection } from "./examValidator";
+
+export interface PartialExam {
+  examTitle?: string;
+  duration?: string;
+  /** Sections whose JSON object has been fully received. */
+  sections: ExamSection[];
+  /** Answer keys whose JSON object has been fully received. */
+  answers: AnswerKey[];
+  contentClosed: boolean;
+  answersClosed: boolean;
+}
+
+/**
+ * Tolerant incremental parser for the streamed exam JSON.
+ * Characters are fed as they arrive; every element of the root "content" and
+ * "answers" arrays is emitted as soon as its closing brace is seen, so a
+ * truncated stream still yields all the sections that were completed.
+ * Elements that do not have the section or answer shape are dropped.
+ */
+export class IncrementalExamParser {
+  private buffer = "";
+  private pos = 0;
+  private stack: string[] = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastRootKey: string | null = null;
+  private expectingRootValue = false;
+  private arrayKey: string | null = null;
+  private elementStart = -1;
+  private started = false;
+
+  private result: PartialExam = { sections: [], answers: [], contentClosed: false, answersClosed: false };
+
+  /** Feeds a new chunk and returns the current partial exam. */
+  push(chunk: string): PartialExam {
+    this.buffer += chunk;
+    if (!this.started) {
+      // Skip markdown fences or any text before the root object
+      const rootStart = this.buffer.indexOf("{");
+      if (rootStart === -1) return this.result;
+      this.pos = rootStart;
+      this.started = true;
+    }
+    for (; this.pos < this.buffer.length; this.pos++) {
+      this.step(this.buffer[this.pos], this.pos);
+    }
+    return this.result;
+  }
+
+  get partial(): PartialExam {
+    return this.result;
+  }
+
+  private step(ch: string, i: number) {
+    if (this.inString) {
+      if (this.escaped) this.escaped = false;
+      else if (ch === "\\") this.escaped = true;
+      else if (ch === '"') {
+        this.inString = false;
+        this.onStringEnd(this.stringStart, i);
+      }
+      return;
+    }
+
+    switch (ch) {
+      case '"':
+        this.inString = true;
+        this.stringStart = i;
+        break;
+      case ":":
+        if (this.stack.length === 1) this.expectingRootValue = true;
+        break;
+      case ",":
+        if (this.stack.length === 1) this.expectingRootValue = false;
+        break;
+      case "{":
+      case "[":
+        if (this.stack.length === 1 && ch === "[") {
+          this.arrayKey = this.lastRootKey;
+        }
+        if (this.stack.length === 2 && this.stack[1] === "[" && ch === "{") {
+          this.elementStart = i;
+        }
+        this.stack.push(ch);
+        break;
+      case "}":
+      case "]":
+        this.stack.pop();
+        if (this.stack.length === 2 && this.stack[1] === "[" && ch === "}" && this.elementStart !== -1) {
+          this.onElement(this.buffer.slice(this.elementStart, i + 1));
+          this.elementStart = -1;
+        }
+        if (this.stack.length === 1 && ch === "]") {
+          if (this.arrayKey === "content") this.result.contentClosed = true;
+          if (this.arrayKey === "answers") this.result.answersClosed = true;
+          this.arrayKey = null;
+          this.expectingRootValue = false;
+        }
+        break;
+    }
+  }
+
+  private onStringEnd(start: number, end: number) {
+    if (this.stack.length !== 1) return;
+    let value: string;
+    try {
+      value = JSON.parse(this.buffer.slice(start, end + 1));
+    } catch {
+      return;
+    }
+    if (this.expectingRootValue) {
+      if (this.lastRootKey === "examTitle") this.result.examTitle = value;
+      if (this.lastRootKey === "duration") this.result.duration = value;
+      this.expectingRootValue = false;
+    } else {
+      this.lastRootKey = value;
+    }
+  }
+
+  private onElement(json: string) {
+    let value: any;
+    try {
+      value = JSON.parse(json);
+    } catch {
+      return;
+    }
+    const issues: ValidationIssue[] = [];
+    if (this.arrayKey === "content") {
+      const section = validateSection(value, `content[${this.result.sections.length}]`, issues);
+      if (section) this.result = { ...this.result, sections: [...this.result.sections, section] };
+    } else if (this.arrayKey === "answers") {
+      const answer = validateAnswerKey(value, `answers[${this.result.answers.length}]`, issues);
+      if (answer) this.result = { ...this.result, answers: [...this.result.answers, answer] };
+    }
+    if (issues.length > 0) console.warn("Dropped a streamed element that failed validation:", issues);
+  }
+}
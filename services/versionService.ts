@@ -0,0 +1,140 @@
+import { AnswerKey, ExamData, ExamSection, ExamVersion, Question, QuestionOrigin } from "../types";
+import { OPTION_LETTERS, isMultipleChoice, parseAnswerLetter } from "./examUtils";
+
+export const DEFAULT_START_CODE = 101;
+
+/**
+ * Small deterministic PRNG (mulberry32) so the same seed always yields the same versions.
+ */
+function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], rng: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Cloze passages refer to their questions by number ("(1)", "Question 1"),
+ * so those sections must keep their question order.
+ */
+function referencesQuestionNumbers(section: ExamSection): boolean {
+  if (!section.text) return false;
+  return /\(\s*\d+\s*\)|_{2,}\s*\d+|question\s+\d+|câu\s+\d+/i.test(section.text);
+}
+
+/**
+ * Shuffles the A-D options of a multiple choice question.
+ * Returns the new question and a map from old letter to new letter.
+ */
+function shuffleOptions(q: Question, rng: () => number, canRemap: boolean): { question: Question; letterMap: Record<string, string> } {
+  // Error identification letters point at fixed places in the sentence
+  if (!isMultipleChoice(q) || q.kind === "error_identification" || !canRemap) return { question: q, letterMap: {} };
+
+  const order = shuffle([0, 1, 2, 3], rng);
+  const letterMap: Record<string, string> = {};
+  const parts = order.map((srcIdx, slot) => {
+    const src = q.parts![srcIdx];
+    letterMap[OPTION_LETTERS[srcIdx]] = OPTION_LETTERS[slot];
+    return { ...src, label: `${OPTION_LETTERS[slot]}.` };
+  });
+  return { question: { ...q, parts }, letterMap };
+}
+
+function remapAnswer(answer: string, letterMap: Record<string, string>): string {
+  const letter = parseAnswerLetter(answer);
+  if (!letter || !letterMap[letter]) return answer;
+  return answer.replace(/[A-Da-d]/, letterMap[letter]);
+}
+
+function buildVersion(data: ExamData, code: string, rng: () => number): ExamVersion {
+  const answerById = new Map((data.answers || []).map(a => [a.questionId, a]));
+  const answers: AnswerKey[] = [];
+  const placedIds = new Set<string>();
+  const origins: Record<string, QuestionOrigin> = {};
+
+  const content = (data.content || []).map(section => {
+    const questions = section.questions || [];
+    const indices = questions.map((_, i) => i);
+    const order = referencesQuestionNumbers(section) ? indices : shuffle(indices, rng);
+
+    const shuffled = order.map((srcIdx, slot) => {
+      const src = questions[srcIdx];
+      const slotId = questions[slot].id;
+      const srcAnswer = answerById.get(src.id);
+      // Only shuffle options when the key names a letter we can remap
+      const canRemap = !!srcAnswer && !!parseAnswerLetter(srcAnswer.answer);
+      const { question, letterMap } = shuffleOptions(src, rng, canRemap);
+      origins[slotId] = {
+        questionId: src.id,
+        letters: Object.fromEntries(Object.entries(letterMap).map(([from, to]) => [to, from])),
+      };
+
+      if (srcAnswer) {
+        answers.push({ ...srcAnswer, questionId: slotId, answer: remapAnswer(srcAnswer.answer, letterMap) });
+        placedIds.add(src.id);
+      }
+      return { ...question, id: slotId };
+    });
+
+    return { ...section, questions: shuffled };
+  });
+
+  // Keys that do not belong to a rendered question (e.g. writing tasks) stay as they are
+  (data.answers || []).forEach(a => {
+    if (!placedIds.has(a.questionId)) answers.push(a);
+  });
+
+  return { code, content, answers, origins };
+}
+
+/**
+ * Builds `count` shuffled versions (mã đề) of an exam. Question order is shuffled
+ * inside each section and A-D options are shuffled, with answer keys remapped.
+ * Numbering is preserved: the n-th slot of a section keeps its original id.
+ */
+export const generateVersions = (data: ExamData, count: number, seed: number, startCode = DEFAULT_START_CODE): ExamVersion[] => {
+  const versions: ExamVersion[] = [];
+  for (let i = 0; i < count; i++) {
+    const rng = createRng(seed * 7919 + i);
+    versions.push(buildVersion(data, String(startCode + i), rng));
+  }
+  return versions;
+};
+
+/**
+ * Combined answer table: one row per multiple choice question, one column per version.
+ */
+export const buildAnswerTable = (versions: ExamVersion[]): { questionIds: string[]; cells: Record<string, string[]> } => {
+  if (versions.length === 0) return { questionIds: [], cells: {} };
+
+  const questionIds: string[] = [];
+  const cells: Record<string, string[]> = {};
+
+  versions[0].content.forEach(section => {
+    section.questions.filter(isMultipleChoice).forEach(q => {
+      const letters = versions.map(v => {
+        const key = v.answers.find(a => a.questionId === q.id);
+        return key ? parseAnswerLetter(key.answer) || "" : "";
+      });
+      if (letters.some(Boolean)) {
+        questionIds.push(q.id);
+        cells[q.id] = letters;
+      }
+    });
+  });
+
+  return { questionIds, cells };
+};
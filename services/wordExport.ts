@@ -0,0 +1,565 @@
+import {
+  Document,
+  Paragraph,
+  TextRun,
+  ImageRun,
+  AlignmentType,
+  BorderStyle,
+  WidthType,
+  Table,
+  TableRow,
+  TableCell,
+  PageOrientation,
+  HeightRule,
+  Footer,
+  PageNumber,
+  convertMillimetersToTwip
+} from "docx";
+import { AnswerKey, ExamData, ExamImage, ExamSection, ExamVersion, Question, SchoolProfile } from "../types";
+import { OPTION_LETTERS } from "./examUtils";
+import { questionKind, errorSegments, writingLines, formatKeyAnswer, findQuestion, TRUE_FALSE_CHOICES } from "./questionKinds";
+import { buildAnswerTable } from "./versionService";
+import { buildExamMatrix, buildSpecification } from "./matrixService";
+import { buildAnswerSheetLayout, SHEET_DIGITS, SBD_LENGTH, EXAM_CODE_LENGTH } from "./answerSheetService";
+import { DEFAULT_SCHOOL_PROFILE, examPeriodLine, parseSigners } from "./schoolProfile";
+import { parseInline } from "./inlineMarkup";
+import { imageBytes, imageDisplaySize, IMAGES_PER_ROW } from "./imageService";
+import { pageFooterPrefix, PAGE_MARGIN_MM } from "./paginationService";
+
+const fontName = "Times New Roman";
+
+const pageMargin = convertMillimetersToTwip(PAGE_MARGIN_MM);
+const pageMargins = { top: pageMargin, bottom: pageMargin, left: pageMargin, right: pageMargin };
+
+const noBorders = {
+  top: { style: BorderStyle.NONE }, bottom: { style: BorderStyle.NONE },
+  left: { style: BorderStyle.NONE }, right: { style: BorderStyle.NONE },
+  insideVertical: { style: BorderStyle.NONE }, insideHorizontal: { style: BorderStyle.NONE },
+};
+
+const centeredLine = (text: string, size: number, options: { bold?: boolean; italics?: boolean } = {}) =>
+  new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text, font: fontName, size, ...options })] });
+
+function buildHeader(data: ExamData, profile: SchoolProfile, code?: string): any[] {
+  const period = examPeriodLine(profile);
+  return [
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: noBorders,
+      rows: [
+        new TableRow({
+          children: [
+            new TableCell({
+              width: { size: 40, type: WidthType.PERCENTAGE },
+              children: [
+                ...(profile.department ? [centeredLine(profile.department.toUpperCase(), 24)] : []),
+                ...(profile.school ? [centeredLine(profile.school.toUpperCase(), 24, { bold: true })] : []),
+                centeredLine("__________________", 24, { bold: true }),
+                // Word's own page count for the paper's section, like the "Trang i/N" footer
+                new Paragraph({
+                  alignment: AlignmentType.CENTER,
+                  children: [new TextRun({ children: ["(Đề thi có ", PageNumber.TOTAL_PAGES_IN_SECTION, " trang)"], italics: true, font: fontName, size: 20 })],
+                }),
+                ...(code ? [centeredLine(`Mã đề thi: ${code}`, 24, { bold: true })] : []),
+              ],
+            }),
+            new TableCell({
+              width: { size: 60, type: WidthType.PERCENTAGE },
+              children: [
+                ...(period ? [centeredLine(period.toUpperCase(), 24, { bold: true })] : []),
+                centeredLine(data.examTitle?.toUpperCase() || "EXAM PAPER", 28, { bold: true }),
+                centeredLine(`Subject: English | Time: ${data.duration}`, 24, { italics: true }),
+              ],
+            }),
+          ],
+        }),
+      ],
+    }),
+    new Paragraph({ text: "", spacing: { after: 200 } })
+  ];
+}
+
+function buildSectionTitle(section: ExamSection): any[] {
+  return [
+    new Paragraph({
+      children: inlineRuns(section.section, { bold: true, size: 26 }),
+      spacing: { before: 200, after: 100 },
+      // Never left alone at the bottom of a page
+      keepNext: true,
+    }),
+    ...buildImages(section.images),
+  ];
+}
+
+function buildPassage(text: string): any[] {
+  return text.split('\n').map(line =>
+    new Paragraph({ children: inlineRuns(line), spacing: { after: 100 } })
+  );
+}
+
+const dottedLine = ".".repeat(110);
+
+const textRun = (text: string, options: { bold?: boolean; italics?: boolean; underline?: boolean } = {}) =>
+  new TextRun({ text, font: fontName, size: 24, ...options, underline: options.underline ? {} : undefined });
+
+/** Runs for text with inline markup, on top of the given base style. */
+const inlineRuns = (text: string, options: { bold?: boolean; italics?: boolean; underline?: boolean; size?: number } = {}) =>
+  parseInline(text).map(run => new TextRun({
+    text: run.text,
+    font: fontName,
+    size: options.size ?? 24,
+    bold: options.bold || run.bold,
+    italics: options.italics || run.italic,
+    underline: options.underline || run.underline ? {} : undefined,
+  }));
+
+const indented = (children: any[], keepNext = false) => new Paragraph({ children, indent: { left: 720 }, keepNext });
+
+/** Question text runs, with the underlined error segments and the word-form base word. */
+function stemRuns(q: Question): any[] {
+  const kind = questionKind(q);
+  const segments = kind === "error_identification" ? errorSegments(q) : null;
+  if (segments) {
+    return segments.flatMap(seg => seg.letter
+      ? [...inlineRuns(seg.text, { underline: true }), new TextRun({ text: seg.letter, font: fontName, size: 16, bold: true, subScript: true })]
+      : inlineRuns(seg.text));
+  }
+  return [
+    ...inlineRuns(q.text),
+    ...(kind === "word_form" && q.baseWord ? [textRun(` (${q.baseWord.toUpperCase()})`, { bold: true })] : []),
+  ];
+}
+
+/** Paragraphs under the question line, laid out like the preview for each kind. */
+function bodyParagraphs(q: Question): any[] {
+  const parts = q.parts || [];
+  // Every line but the last keeps with the next, so a question never splits across pages
+  const partLines = (last: boolean) => parts.map((p, i) => indented([textRun(`${p.label || ""} `), ...inlineRuns(p.content)], !last || i < parts.length - 1));
+
+  switch (questionKind(q)) {
+    case "multiple_choice":
+      return [indented(parts.flatMap(p => [textRun(`${p.label} `), ...inlineRuns(p.content), textRun("    ")]))];
+    case "error_identification":
+      return errorSegments(q) ? [] : [indented(parts.flatMap(p => [textRun(`${p.label} `), ...inlineRuns(p.content), textRun("    ")]))];
+    case "true_false":
+      return [indented(TRUE_FALSE_CHOICES.map(choice => textRun(`☐ ${choice}        `)))];
+    case "matching": {
+      const options = q.matchOptions || [];
+      const rows = Math.max(parts.length, options.length);
+      const cell = (part?: { label: string; content: string }) => new TableCell({
+        width: { size: 50, type: WidthType.PERCENTAGE },
+        children: [new Paragraph({ children: part ? [textRun(`${part.label} `, { bold: true }), ...inlineRuns(part.content)] : [] })],
+      });
+      return [
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          borders: noBorders,
+          indent: { size: 720, type: WidthType.DXA },
+          rows: Array.from({ length: rows }, (_, r) => new TableRow({ cantSplit: true, children: [cell(parts[r]), cell(options[r])] })),
+        }),
+        indented([textRun(parts.map(p => `${p.label.replace(/\.$/, "")} - ____`).join("     "))]),
+      ];
+    }
+    case "sentence_transformation":
+      return [indented([textRun(`→ ${q.sentenceStart || ""} ${dottedLine.slice((q.sentenceStart || "").length)}`)])];
+    case "sentence_ordering":
+      return [
+        indented(inlineRuns(parts.map(p => p.content).join(" / ")), true),
+        indented([textRun(`→ ${dottedLine}`)]),
+      ];
+    case "open_writing": {
+      const lines = writingLines(q);
+      return [
+        ...partLines(false),
+        ...(q.wordLimit ? [indented([textRun(`(About ${q.wordLimit} words)`, { italics: true })], true)] : []),
+        ...Array.from({ length: lines }, (_, i) => indented([textRun(dottedLine)], i < lines - 1)),
+      ];
+    }
+    case "gap_fill":
+    case "word_form":
+      return [];
+    default:
+      return partLines(true);
+  }
+}
+
+/**
+ * Attached pictures in a borderless table, three to a row at their preview size,
+ * numbered underneath when there are several.
+ */
+function buildImages(images: ExamImage[] = []): any[] {
+  if (images.length === 0) return [];
+  const rows: ExamImage[][] = [];
+  for (let i = 0; i < images.length; i += IMAGES_PER_ROW) rows.push(images.slice(i, i + IMAGES_PER_ROW));
+
+  return [
+    new Table({
+      borders: noBorders,
+      indent: { size: 720, type: WidthType.DXA },
+      rows: rows.map((row, r) => new TableRow({
+        cantSplit: true,
+        children: row.map((img, c) => new TableCell({
+          children: [
+            new Paragraph({ alignment: AlignmentType.CENTER, children: [new ImageRun({ data: imageBytes(img.dataUrl), transformation: imageDisplaySize(img) })] }),
+            ...(images.length > 1 ? [centeredLine(String(r * IMAGES_PER_ROW + c + 1), 20, { bold: true })] : []),
+          ],
+        })),
+      })),
+    }),
+  ];
+}
+
+function buildQuestion(q: Question): any[] {
+  const body = [...buildImages(q.images), ...bodyParagraphs(q)];
+  return [
+    new Paragraph({
+      children: [
+        new TextRun({ text: `${q.id}. `, bold: true, font: fontName, size: 24 }),
+        ...stemRuns(q),
+        new TextRun({ text: q.points ? ` (${q.points} pts)` : "", italics: true, font: fontName, size: 20 }),
+      ],
+      spacing: { before: 100, after: 50 },
+      keepNext: body.length > 0,
+    }),
+    ...body,
+  ];
+}
+
+const buildEnd = () => [
+  new Paragraph({ alignment: AlignmentType.CENTER, spacing: { before: 400 }, children: [new TextRun({ text: "--- THE END ---", font: fontName, size: 24, italics: true })] }),
+];
+
+/** The paper's content; Word places the page breaks. */
+function buildContent(content: ExamSection[]): any[] {
+  return [
+    ...(content || []).flatMap(section => [
+      ...buildSectionTitle(section),
+      ...(section.text ? buildPassage(section.text) : []),
+      ...(section.questions || []).flatMap(buildQuestion),
+    ]),
+    ...buildEnd(),
+  ];
+}
+
+/**
+ * The paper in its own section, numbered from 1 with a "Trang i/N" footer. The page
+ * number and count are Word fields, so they follow wherever Word breaks the pages.
+ */
+function buildPaperSection(data: ExamData, content: ExamSection[], profile: SchoolProfile, code?: string) {
+  return {
+    properties: { page: { margin: pageMargins, pageNumbers: { start: 1 } } },
+    footers: {
+      default: new Footer({
+        children: [new Paragraph({
+          alignment: AlignmentType.RIGHT,
+          children: [new TextRun({ children: [`${pageFooterPrefix(code)}Trang `, PageNumber.CURRENT, "/", PageNumber.TOTAL_PAGES_IN_SECTION], bold: true, font: fontName, size: 20 })],
+        })],
+      }),
+    },
+    children: [...buildHeader(data, profile, code), ...buildContent(content)],
+  };
+}
+
+// The answer key starts a new section so the paper's page footer does not run into it
+const keySection = (children: any[]) => ({
+  properties: { page: { margin: pageMargins } },
+  footers: { default: new Footer({ children: [new Paragraph("")] }) },
+  children,
+});
+
+function buildAnswerLines(answers: AnswerKey[], content: ExamSection[]): any[] {
+  return (answers || []).map(ans =>
+    new Paragraph({
+      children: [
+        new TextRun({ text: `${ans.questionId}: `, bold: true, font: fontName, size: 24 }),
+        ...inlineRuns(formatKeyAnswer(findQuestion(content, ans.questionId), ans.answer)),
+        new TextRun({ text: ` (${ans.pointsDetail})`, italics: true, font: fontName, size: 20 }),
+      ],
+      spacing: { after: 100 }
+    })
+  );
+}
+
+function buildAnswerKey(answers: AnswerKey[], content: ExamSection[], title: string): any[] {
+  return [
+    new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: title, bold: true, font: fontName, size: 28 })], spacing: { after: 300 } }),
+    ...buildAnswerLines(answers, content),
+  ];
+}
+
+/**
+ * Signature block: one column per signer, title on top and name below the signing space.
+ */
+function buildSignatures(profile: SchoolProfile): any[] {
+  const signers = parseSigners(profile.signatures);
+  if (signers.length === 0) return [];
+
+  return [
+    new Paragraph({ text: "", spacing: { after: 400 } }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: noBorders,
+      rows: [
+        new TableRow({
+          children: signers.map(signer => new TableCell({
+            width: { size: Math.floor(100 / signers.length), type: WidthType.PERCENTAGE },
+            children: [
+              centeredLine(signer.title.toUpperCase(), 24, { bold: true }),
+              new Paragraph({ text: "", spacing: { after: 1200 } }),
+              centeredLine(signer.name, 24, { bold: true }),
+            ],
+          })),
+        }),
+      ],
+    }),
+  ];
+}
+
+/** Block pieces for {{content}}, {{answers}} and {{signatures}} in an uploaded template. */
+export const buildTemplateBlocks = (content: ExamSection[], answers: AnswerKey[], profile: SchoolProfile) => ({
+  content: buildContent(content),
+  answers: buildAnswerLines(answers, content),
+  signatures: buildSignatures(profile),
+});
+
+const tableCell = (text: string, bold = false) =>
+  new TableCell({
+    children: [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text, bold, font: fontName, size: 22 })] })],
+  });
+
+function buildCombinedAnswerTable(versions: ExamVersion[]): any[] {
+  const { questionIds, cells } = buildAnswerTable(versions);
+  if (questionIds.length === 0) return [];
+
+  return [
+    new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: "BẢNG ĐÁP ÁN CÁC MÃ ĐỀ", bold: true, font: fontName, size: 28 })], spacing: { after: 300 } }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({ tableHeader: true, children: [tableCell("Câu", true), ...versions.map(v => tableCell(v.code, true))] }),
+        ...questionIds.map(id => new TableRow({ children: [tableCell(id), ...cells[id].map(letter => tableCell(letter))] })),
+      ],
+    }),
+  ];
+}
+
+/**
+ * Builds the .docx for an exam. When versions are given, every mã đề gets its own
+ * paper and answer key, followed by the combined answer table.
+ */
+export const buildExamDocument = (data: ExamData, versions: ExamVersion[] = [], profile: SchoolProfile = DEFAULT_SCHOOL_PROFILE): Document => {
+  if (versions.length === 0) {
+    return new Document({
+      sections: [
+        buildPaperSection(data, data.content, profile),
+        keySection([...buildAnswerKey(data.answers, data.content, "ANSWER KEY"), ...buildSignatures(profile)]),
+      ],
+    });
+  }
+
+  const sections: any[] = versions.flatMap(v => [
+    buildPaperSection(data, v.content, profile, v.code),
+    keySection([...buildAnswerKey(v.answers, v.content, `ANSWER KEY - MÃ ĐỀ ${v.code}`), ...buildSignatures(profile)]),
+  ]);
+  const answerTable = buildCombinedAnswerTable(versions);
+  if (answerTable.length > 0) sections.push(keySection(answerTable));
+  return new Document({ sections });
+};
+
+const headerCell = (text: string, columnSpan = 1, rowSpan = 1) =>
+  new TableCell({
+    columnSpan,
+    rowSpan,
+    shading: { fill: "E7EEF7" },
+    children: [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text, bold: true, font: fontName, size: 22 })] })],
+  });
+
+const leftCell = (text: string, bold = false) =>
+  new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold, font: fontName, size: 22 })] })],
+  });
+
+const formatNumber = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(2).replace(/0$/, "")).replace(".", ",");
+
+function buildMatrixTable(data: ExamData): Table {
+  const matrix = buildExamMatrix(data);
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: [
+          headerCell("TT", 1, 2),
+          headerCell("Kỹ năng / Nội dung", 1, 2),
+          ...matrix.levels.map(level => headerCell(level, 2)),
+          headerCell("Tổng", 3),
+        ],
+      }),
+      new TableRow({
+        tableHeader: true,
+        children: [
+          ...matrix.levels.flatMap(() => [headerCell("Số câu"), headerCell("Điểm")]),
+          headerCell("Số câu"), headerCell("Điểm"), headerCell("Tỉ lệ %"),
+        ],
+      }),
+      ...matrix.rows.map((row, i) => new TableRow({
+        children: [
+          tableCell(String(i + 1)),
+          leftCell(row.skill),
+          ...matrix.levels.flatMap(level => [
+            tableCell(row.cells[level] ? String(row.cells[level].count) : ""),
+            tableCell(row.cells[level] ? formatNumber(row.cells[level].points) : ""),
+          ]),
+          tableCell(String(row.total.count), true),
+          tableCell(formatNumber(row.total.points), true),
+          tableCell(`${formatNumber(row.percent)}%`, true),
+        ],
+      })),
+      new TableRow({
+        children: [
+          new TableCell({ columnSpan: 2, children: [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: "Tổng", bold: true, font: fontName, size: 22 })] })] }),
+          ...matrix.levels.flatMap(level => [tableCell(String(matrix.totals[level].count), true), tableCell(formatNumber(matrix.totals[level].points), true)]),
+          tableCell(String(matrix.grandTotal.count), true),
+          tableCell(formatNumber(matrix.grandTotal.points), true),
+          tableCell("100%", true),
+        ],
+      }),
+      new TableRow({
+        children: [
+          new TableCell({ columnSpan: 2, children: [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: "Tỉ lệ %", bold: true, font: fontName, size: 22 })] })] }),
+          ...matrix.levels.map(level => new TableCell({
+            columnSpan: 2,
+            children: [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: `${formatNumber(matrix.levelPercents[level])}%`, bold: true, font: fontName, size: 22 })] })],
+          })),
+          new TableCell({ columnSpan: 3, children: [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: "100%", bold: true, font: fontName, size: 22 })] })] }),
+        ],
+      }),
+    ],
+  });
+}
+
+function buildSpecificationTable(data: ExamData): Table {
+  const spec = buildSpecification(data);
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: [
+          headerCell("TT", 1, 2),
+          headerCell("Kỹ năng / Nội dung", 1, 2),
+          headerCell("Mức độ kiến thức, kỹ năng cần kiểm tra, đánh giá", 1, 2),
+          headerCell("Số câu hỏi theo mức độ nhận thức", spec.levels.length),
+          headerCell("Tổng số câu", 1, 2),
+        ],
+      }),
+      new TableRow({ tableHeader: true, children: spec.levels.map(level => headerCell(level)) }),
+      ...spec.rows.map((row, i) => new TableRow({
+        children: [
+          tableCell(String(i + 1)),
+          leftCell(row.skill, true),
+          leftCell(row.objective),
+          ...spec.levels.map(level => tableCell(row.questionIds[level]
+            ? `${row.questionIds[level].length} (${row.questionIds[level].join(", ")})`
+            : "")),
+          tableCell(String(Object.values(row.questionIds).reduce((acc, ids) => acc + ids.length, 0)), true),
+        ],
+      })),
+    ],
+  });
+}
+
+const centeredTitle = (text: string) =>
+  new Paragraph({ alignment: AlignmentType.CENTER, spacing: { after: 200 }, children: [new TextRun({ text, bold: true, font: fontName, size: 28 })] });
+
+/**
+ * Builds the "Ma trận đề" and "Bản đặc tả" as landscape .docx tables.
+ */
+export const buildMatrixDocument = (data: ExamData): Document => {
+  const landscape = { page: { size: { orientation: PageOrientation.LANDSCAPE } } };
+  const subtitle = () => new Paragraph({
+    alignment: AlignmentType.CENTER,
+    spacing: { after: 300 },
+    children: [new TextRun({ text: `${data.examTitle || "ĐỀ KIỂM TRA"} - MÔN: TIẾNG ANH - Thời gian: ${data.duration}`, italics: true, font: fontName, size: 24 })],
+  });
+
+  return new Document({
+    sections: [
+      { properties: landscape, children: [centeredTitle("MA TRẬN ĐỀ KIỂM TRA"), subtitle(), buildMatrixTable(data)] },
+      { properties: landscape, children: [centeredTitle("BẢN ĐẶC TẢ ĐỀ KIỂM TRA"), subtitle(), buildSpecificationTable(data)] },
+    ],
+  });
+};
+
+const BLOCKS_PER_ROW = 4;
+const circledDigit = (d: string) => (d === "0" ? "\u24EA" : String.fromCharCode(0x2460 + Number(d) - 1));
+const circledLetter = (letter: string) => String.fromCharCode(0x24b6 + letter.charCodeAt(0) - 65);
+
+const sheetLine = (label: string) =>
+  new Paragraph({ spacing: { after: 160 }, children: [new TextRun({ text: `${label}: ........................................................`, font: fontName, size: 24 })] });
+
+function buildDigitGrid(): Table {
+  const spacer = () => new TableCell({ borders: noBorders, children: [new Paragraph("")] });
+  const group = (columns: number, render: (col: number) => TableCell) => Array.from({ length: columns }, (_, col) => render(col));
+  return new Table({
+    alignment: AlignmentType.RIGHT,
+    rows: [
+      new TableRow({ children: [headerCell("Số báo danh", SBD_LENGTH), spacer(), headerCell("Mã đề", EXAM_CODE_LENGTH)] }),
+      new TableRow({ children: [...group(SBD_LENGTH, () => tableCell("")), spacer(), ...group(EXAM_CODE_LENGTH, () => tableCell(""))] }),
+      ...SHEET_DIGITS.map(d => new TableRow({
+        children: [...group(SBD_LENGTH, () => tableCell(circledDigit(d))), spacer(), ...group(EXAM_CODE_LENGTH, () => tableCell(circledDigit(d)))],
+      })),
+    ],
+  });
+}
+
+/**
+ * Builds the printable "phiếu trả lời trắc nghiệm": name/SBD/mã đề header,
+ * one A-D bubble row per multiple choice question and boxes for written answers.
+ */
+export const buildAnswerSheetDocument = (data: ExamData): Document => {
+  const { choiceBlocks, writtenItems } = buildAnswerSheetLayout(data);
+  const children: any[] = [
+    centeredTitle("PHIẾU TRẢ LỜI TRẮC NGHIỆM"),
+    new Paragraph({ alignment: AlignmentType.CENTER, spacing: { after: 300 }, children: [new TextRun({ text: `${data.examTitle} - Môn: Tiếng Anh`, italics: true, font: fontName, size: 24 })] }),
+    sheetLine("Họ và tên thí sinh"),
+    sheetLine("Lớp"),
+    sheetLine("Chữ ký giám thị"),
+    buildDigitGrid(),
+  ];
+
+  for (let i = 0; i < choiceBlocks.length; i += BLOCKS_PER_ROW) {
+    if (i === 0) children.push(new Paragraph({ spacing: { before: 300, after: 100 }, children: [new TextRun({ text: "PHẦN TRẮC NGHIỆM", bold: true, font: fontName, size: 24 })] }));
+    const blocks = choiceBlocks.slice(i, i + BLOCKS_PER_ROW);
+    const rowCount = Math.max(...blocks.map(b => b.length));
+    children.push(
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: Array.from({ length: rowCount }, (_, r) => new TableRow({
+          children: blocks.flatMap(block => block[r]
+            ? [tableCell(block[r].label, true), tableCell(OPTION_LETTERS.map(circledLetter).join("  "))]
+            : [tableCell(""), tableCell("")]),
+        })),
+      }),
+      new Paragraph({ text: "", spacing: { after: 100 } })
+    );
+  }
+
+  if (writtenItems.length > 0) {
+    children.push(
+      new Paragraph({ spacing: { before: 300, after: 100 }, children: [new TextRun({ text: "PHẦN TỰ LUẬN", bold: true, font: fontName, size: 24 })] }),
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: writtenItems.map(item => new TableRow({
+          height: { value: 600, rule: HeightRule.ATLEAST },
+          children: [
+            new TableCell({ width: { size: 15, type: WidthType.PERCENTAGE }, children: [new Paragraph({ children: [new TextRun({ text: item.questionId, bold: true, font: fontName, size: 22 })] })] }),
+            new TableCell({ width: { size: 85, type: WidthType.PERCENTAGE }, children: [new Paragraph("")] }),
+          ],
+        })),
+      })
+    );
+  }
+
+  return new Document({ sections: [{ children }] });
+};
@@ -17,18 +17,59 @@ export interface QuestionPart {
   points?: string;
 }
 
+/**
+ * Layout of a question. Fields by kind:
+ * - multiple_choice: `parts` are the options A.-D.
+ * - error_identification: `parts` A.-D. are the underlined segments of `text`
+ * - gap_fill: `text` contains the blank
+ * - true_false: `text` is the statement; the key is True, False or Not Given
+ * - matching: `parts` are the numbered items, `matchOptions` the lettered choices
+ * - word_form: `text` contains the blank, `baseWord` is the word to change
+ * - sentence_transformation: `text` is the original, `sentenceStart` begins the rewrite
+ * - sentence_ordering: `parts` are the jumbled fragments
+ * - open_writing: `text` is the task, `wordLimit` the expected length
+ */
+export type QuestionKind =
+  | 'multiple_choice'
+  | 'gap_fill'
+  | 'true_false'
+  | 'matching'
+  | 'word_form'
+  | 'sentence_transformation'
+  | 'error_identification'
+  | 'sentence_ordering'
+  | 'open_writing';
+
+/** Picture attached to a question or section, stored inline so it is saved with the exam. */
+export interface ExamImage {
+  id: string;
+  dataUrl: string; // PNG or JPEG data URL
+  width: number; // natural size in pixels, for the aspect ratio
+  height: number;
+  alt?: string;
+}
+
 export interface Question {
   id: string; 
   text: string;
   points: number;
+  kind?: QuestionKind; // older exams have none and are laid out from `parts`
   parts?: QuestionPart[];
-  level?: string; 
+  matchOptions?: QuestionPart[];
+  baseWord?: string;
+  sentenceStart?: string;
+  wordLimit?: number;
+  images?: ExamImage[];
+  level?: string; // Cognitive level: Nhận biết | Thông hiểu | Vận dụng | Vận dụng cao
+  skill?: string; // Topic/skill for the matrix, e.g. "Grammar", "Reading"
+  objective?: string; // What the item tests, for the specification
 }
 
 export interface ExamSection {
   section: string; 
   text?: string;
   source?: string;
+  images?: ExamImage[];
   questions: Question[];
 }
 
@@ -46,10 +87,193 @@ export interface ExamData {
   matrixMapping?: string[];
 }
 
+/** Where a version slot came from: the original question and its option letters. */
+export interface QuestionOrigin {
+  questionId: string;
+  letters: Record<string, string>; // version letter -> original letter
+}
+
+export interface ExamVersion {
+  code: string; // Mã đề, e.g. "101"
+  content: ExamSection[];
+  answers: AnswerKey[];
+  origins: Record<string, QuestionOrigin>; // keyed by slot id
+}
+
+export interface StudentResult {
+  id: string;
+  studentCode: string;
+  name: string;
+  versionCode: string; // Mã đề the student sat
+  choices: Record<string, string>; // questionId -> chosen letter
+  manualScores: Record<string, number>; // questionId -> points for written items
+}
+
+/** Answer key of one paper (the original or a shuffled mã đề). */
+export interface GradingKey {
+  code: string;
+  content: ExamSection[];
+  answers: AnswerKey[];
+  origins?: Record<string, QuestionOrigin>; // missing for the original paper
+}
+
+/** The papers as they were last printed or exported, so grading matches what students sat. */
+export interface PrintedPapers {
+  versionCount: number;
+  versionSeed: number;
+  keys: GradingKey[];
+  printedAt: number;
+}
+
+export interface GradingSession {
+  versionCount: number; // 0 means everyone sat the original paper
+  versionSeed: number;
+  // Keys taken when grading started; later edits to the exam do not change the marks.
+  // Missing in sessions saved before keys were kept, which use the current exam.
+  keys?: GradingKey[];
+  students: StudentResult[];
+  updatedAt: number;
+}
+
+export interface SavedExam {
+  id: string;
+  title: string;
+  exam: ExamData;
+  config: ExamConfig | null;
+  grading?: GradingSession;
+  printed?: PrintedPapers;
+  run?: GenerationRun;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BankTags {
+  grade: string;
+  skill: string;
+  cefr: string;
+  level: string; // cognitive level
+  topic: string;
+}
+
+/** A shared reading/cloze passage; its questions point to it by passageId. */
+export interface BankPassage {
+  id: string;
+  section: string;
+  text: string;
+  source?: string;
+}
+
+export interface BankQuestion {
+  id: string;
+  question: Question;
+  answer?: AnswerKey;
+  section: string; // instruction line of the section it came from
+  passageId?: string;
+  tags: BankTags;
+  sourceExamId?: string;
+  createdAt: number;
+}
+
+/** Header and signature details printed on every paper and Word export. */
+export interface SchoolProfile {
+  department: string; // e.g. "SỞ GIÁO DỤC VÀ ĐÀO TẠO HÀ NỘI"
+  school: string;
+  examName: string; // exam period, e.g. "KIỂM TRA CUỐI HỌC KÌ I"
+  schoolYear: string; // e.g. "2025 - 2026"
+  signatures: string; // one signer per line: "TỔ TRƯỞNG | Nguyễn Văn A"
+}
+
+/** A teacher's own .docx with {{placeholders}} used instead of the built-in layout. */
+export interface ExamTemplate {
+  id: string;
+  fileName: string;
+  file: Blob;
+  uploadedAt: number;
+}
+
+export type AiProviderType = 'gemini' | 'openai' | 'mock';
+
+/** A configured AI backend. Providers are tried in list order, each through its models in order. */
+export interface AiProviderConfig {
+  id: string;
+  type: AiProviderType;
+  name: string;
+  enabled: boolean;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  streamUsage?: boolean; // OpenAI-compatible: ask for token usage on streams; some servers reject stream_options
+  models: string[];
+}
+
+/** One call to one model during a generation step. */
+export interface ModelAttempt {
+  target: string; // "Provider / model"
+  ok: boolean;
+  error?: string; // status and message when the call failed
+  truncated?: boolean; // output was cut off, kept as partial
+  latencyMs: number;
+  promptTokens?: number;
+  responseTokens?: number;
+}
+
+export interface RunStep {
+  name: string;
+  attempts: ModelAttempt[];
+  latencyMs: number;
+}
+
+/** Which models produced an exam and what they cost, kept with the saved exam. */
+export interface GenerationRun {
+  startedAt: number;
+  steps: RunStep[];
+}
+
+export type SchoolStage = 'Primary' | 'Middle School' | 'High School';
+
+/** What an exam for one grade may ask of students; drives the form and the prompts. */
+export interface GradeProfile {
+  grade: string;
+  stage: SchoolStage;
+  cefr: string; // one of CEFR_LEVELS
+  label: string; // badge in the form, e.g. "Ket (A2)"
+  summary: string;
+  stars: number; // difficulty 1-5
+  vocabularySize: [number, number]; // known words, min-max
+  grammar: string[]; // structures the exam may test
+  passageWords: [number, number];
+  sentenceWords: [number, number]; // average sentence length
+  questionKinds: QuestionKind[];
+}
+
+/** Choices the form offers for a school stage. */
+export interface StageOptions {
+  times: string[];
+  trends: string[];
+}
+
+/** A school's changes to the built-in grade profiles, stored field by field. */
+export interface GradeProfileOverrides {
+  grades: Record<string, Partial<GradeProfile>>;
+  stages: Partial<Record<SchoolStage, Partial<StageOptions>>>;
+}
+
+export type PromptTemplateId = 'step1' | 'step2' | 'difficultyPrimary' | 'difficultyMiddle' | 'difficultyHigh';
+
+export interface PromptTemplateVersion {
+  text: string;
+  savedAt: number;
+  note?: string; // e.g. "Default restored"
+}
+
 export enum AppView {
   INPUT = 'INPUT',
   LOADING = 'LOADING',
   RESULT = 'RESULT',
+  LIBRARY = 'LIBRARY',
+  GRADING = 'GRADING',
+  BANK = 'BANK',
 }
 
 export type ProgressCallback = (message: string) => void;
+
+export type PartialExamCallback = (partial: ExamData) => void;